@@ -5,7 +5,7 @@
  * Demonstrates fundamental myCobot control operations
  */
 
-import { MyCobotController, MovementRecorder } from '../lib/index.js';
+import { MyCobotController, MovementRecorder, consoleLogger } from '../lib/index.js';
 import type { TJointAngles } from '../lib/index.js';
 
 /**
@@ -13,7 +13,7 @@ import type { TJointAngles } from '../lib/index.js';
  */
 async function basicControlExample(): Promise<void> {
   const portPath = process.argv[2] ?? '/dev/tty.usbserial-59010016231';
-  
+
   console.log('🤖 Basic myCobot Control Example');
   console.log('=================================\n');
 
@@ -26,17 +26,19 @@ async function basicControlExample(): Promise<void> {
 
     console.log('⚡ Checking power status...');
     const isPowered = await robot.isPowerOn();
-    
+
     console.log(`Power status: ${isPowered ? 'ON' : 'OFF'}\n`);
 
     // Power on servos
     console.log('🔋 Powering on servos...');
     await robot.powerOn();
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    await new Promise((resolve) => {
+      setTimeout(resolve, 1000);
+    });
 
     console.log('📍 Reading current joint angles...');
     const currentAngles = await robot.getAngles();
-    
+
     console.log('Current joint angles:');
     currentAngles.forEach((angle: number, index: number) => {
       console.log(`  Joint ${index + 1}: ${angle.toFixed(2)}°`);
@@ -44,36 +46,36 @@ async function basicControlExample(): Promise<void> {
 
     console.log('\n🗺️  Reading current coordinates...');
     const currentCoords = await robot.getCoords();
-    
+
     console.log('Current coordinates:');
     console.log(`  Position: X=${currentCoords[0].toFixed(1)}mm, Y=${currentCoords[1].toFixed(1)}mm, Z=${currentCoords[2].toFixed(1)}mm`);
     console.log(`  Rotation: Rx=${currentCoords[3].toFixed(1)}°, Ry=${currentCoords[4].toFixed(1)}°, Rz=${currentCoords[5].toFixed(1)}°`);
 
     console.log('\n🏠 Moving to home position...');
-    await robot.sendAngles([0, 0, 0, 0, 0, 0], 50);
-    await new Promise((resolve) => setTimeout(resolve, 3000));
+    await robot.sendAnglesAndWait([0, 0, 0, 0, 0, 0], 50);
 
     console.log('📈 Moving to raised position...');
-    await robot.sendAngles([0, -30, -30, 0, 0, 0], 50);
-    await new Promise((resolve) => setTimeout(resolve, 3000));
+    await robot.sendAnglesAndWait([0, -30, -30, 0, 0, 0], 50);
 
     console.log('🎯 Moving individual joint (base rotation)...');
-    await robot.sendAngle(1, 45, 50);
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+    await robot.sendAngleAndWait(1, 45, 50);
 
     console.log('🔄 Returning to home position...');
-    await robot.sendAngles([0, 0, 0, 0, 0, 0], 50);
-    await new Promise((resolve) => setTimeout(resolve, 3000));
+    await robot.sendAnglesAndWait([0, 0, 0, 0, 0, 0], 50);
 
     console.log('\n🦾 Testing gripper...');
     try {
       console.log('Opening gripper...');
       await robot.setGripperState(0, 50);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await new Promise((resolve) => {
+        setTimeout(resolve, 1000);
+      });
 
       console.log('Closing gripper...');
       await robot.setGripperState(1, 50);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await new Promise((resolve) => {
+        setTimeout(resolve, 1000);
+      });
 
       console.log('✅ Gripper test completed');
     } catch (error) {
@@ -84,7 +86,6 @@ async function basicControlExample(): Promise<void> {
     await robot.releaseAllServos();
 
     console.log('\n✅ Basic control example completed successfully!');
-
   } catch (error) {
     console.error(`❌ Error: ${(error as Error).message}`);
   } finally {
@@ -98,12 +99,12 @@ async function basicControlExample(): Promise<void> {
  */
 async function recordingExample(): Promise<void> {
   const portPath = process.argv[2] ?? '/dev/tty.usbserial-59010016231';
-  
+
   console.log('\n📹 Movement Recording Example');
   console.log('============================\n');
 
   const robot = new MyCobotController(portPath);
-  const recorder = new MovementRecorder(robot);
+  const recorder = new MovementRecorder(robot, { logger: consoleLogger });
 
   try {
     await robot.connect();
@@ -111,9 +112,11 @@ async function recordingExample(): Promise<void> {
 
     // Create a simple programmatic movement to record
     console.log('🎯 Creating a demo movement to record...');
-    
+
     await robot.powerOn();
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    await new Promise((resolve) => {
+      setTimeout(resolve, 1000);
+    });
 
     // Start recording
     console.log('📹 Starting recording...');
@@ -130,17 +133,19 @@ async function recordingExample(): Promise<void> {
     for (const [index, angles] of movements.entries()) {
       console.log(`  Step ${index + 1}: Moving to [${angles.join(', ')}]`);
       await robot.sendAngles(angles, 30);
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      await new Promise((resolve) => {
+        setTimeout(resolve, 2000);
+      });
     }
 
     console.log('⏹️  Stopping recording...');
     const recordingInfo = await recorder.stopRecording();
-    
+
     console.log(`✅ Recording completed: ${recordingInfo.frameCount} frames`);
 
     // Save the recording
     const filename = 'demo-movement.json';
-    
+
     await recorder.saveRecording(filename, {
       description: 'Automated demo movement',
       created_by: 'basic-usage.ts example',
@@ -159,7 +164,6 @@ async function recordingExample(): Promise<void> {
 
     // Clean up
     await robot.releaseAllServos();
-
   } catch (error) {
     console.error(`❌ Recording example error: ${(error as Error).message}`);
   } finally {
@@ -210,4 +214,3 @@ async function main(): Promise<void> {
 if (import.meta.url === `file://${process.argv[1]}`) {
   void main();
 }
-
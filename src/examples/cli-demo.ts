@@ -7,8 +7,13 @@
  */
 
 import readline from 'readline';
-import { MyCobotController, MovementRecorder } from '../lib/index.js';
-import type { TJointAngles, IRecordingFileInfo } from '../lib/index.js';
+import {
+  MyCobotController,
+  MovementRecorder,
+  ServoCalibration,
+  consoleLogger,
+} from '../lib/index.js';
+import type { TJointAngles, TJointId, IRecordingFileInfo } from '../lib/index.js';
 
 const DEFAULT_PORT = '/dev/tty.usbserial-59010016231';
 const DEMO_SPEED = 50;
@@ -35,26 +40,33 @@ export class MyCobotCLI {
 
     try {
       // Initialize robot controller
-      this.robot = new MyCobotController(portPath);
+      this.robot = new MyCobotController(portPath, { logger: consoleLogger });
+      this.robot.on('error', (error: Error) => {
+        console.error(`\n⚠️  Connection error: ${error.message}`);
+      });
+      this.robot.on('disconnect', () => {
+        this.isConnected = false;
+        console.log('\n🔌 Connection to myCobot closed');
+      });
       await this.robot.connect();
-      
+
       // Initialize movement recorder
       this.recorder = new MovementRecorder(this.robot, {
         sampleRate: 20,
         recordingMode: 'angles',
+        logger: consoleLogger,
       });
 
       this.isConnected = true;
-      
+
       this.rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout,
       });
 
       console.log('✅ Connected to myCobot successfully!\n');
-      
-      this._showMainMenu();
 
+      this._showMainMenu();
     } catch (error) {
       console.error(`❌ Failed to connect to myCobot: ${(error as Error).message}`);
       console.error('\nTroubleshooting:');
@@ -78,7 +90,7 @@ export class MyCobotCLI {
     console.log('5. 📂 Manage Recordings');
     console.log('6. ℹ️  Robot Status');
     console.log('7. 🔌 Disconnect & Exit');
-    
+
     if (!this.rl) {
       throw new Error('Readline interface not initialized');
     }
@@ -96,13 +108,13 @@ export class MyCobotCLI {
     try {
       switch (choice) {
         case '1':
-          await this._basicControlMenu();
+          this._basicControlMenu();
           break;
         case '2':
-          await this._manualMovementDemo();
+          this._manualMovementDemo();
           break;
         case '3':
-          await this._recordMovement();
+          this._recordMovement();
           break;
         case '4':
           await this._playRecordedMovement();
@@ -130,7 +142,7 @@ export class MyCobotCLI {
   /**
    * Basic control and testing menu
    */
-  private async _basicControlMenu(): Promise<void> {
+  private _basicControlMenu(): void {
     console.log('\n🔧 Basic Control & Testing');
     console.log('==========================');
     console.log('1. Power On Servos');
@@ -138,13 +150,14 @@ export class MyCobotCLI {
     console.log('3. Release All Servos (Free Movement)');
     console.log('4. Move to Home Position (All zeros)');
     console.log('5. Test Gripper');
-    console.log('6. Back to Main Menu');
+    console.log('6. Calibrate Servo Zero Points');
+    console.log('7. Back to Main Menu');
 
     if (!this.rl) {
       throw new Error('Readline interface not initialized');
     }
 
-    this.rl.question('\nChoose an option (1-6): ', async (answer: string) => {
+    this.rl.question('\nChoose an option (1-7): ', async (answer: string) => {
       if (!this.robot) {
         throw new Error('Robot not initialized');
       }
@@ -170,16 +183,21 @@ export class MyCobotCLI {
           case '4':
             console.log('🏠 Moving to home position...');
             await this.robot.powerOn();
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-            await this.robot.sendAngles([0, 0, 0, 0, 0, 0], DEMO_SPEED);
+            await new Promise((resolve) => {
+              setTimeout(resolve, 1000);
+            });
+            await this.robot.sendAnglesAndWait([0, 0, 0, 0, 0, 0], DEMO_SPEED);
             console.log('✅ Moved to home position');
             break;
           case '5':
             await this._testGripper();
             break;
           case '6':
+            await this._calibrateServos();
+            break;
+          case '7':
             this._showMainMenu();
-            
+
             return;
           default:
             console.log('❌ Invalid option');
@@ -188,9 +206,60 @@ export class MyCobotCLI {
       } catch (error) {
         console.error(`❌ Error: ${(error as Error).message}`);
       }
-      
+
       // Return to basic control menu
-      setTimeout(() => void this._basicControlMenu(), 1000);
+      setTimeout(() => this._basicControlMenu(), 1000);
+    });
+  }
+
+  /**
+   * Guided servo zero-point calibration
+   */
+  private async _calibrateServos(): Promise<void> {
+    if (!this.robot) {
+      throw new Error('Robot not initialized');
+    }
+
+    const answer = await this._ask('Joints to calibrate (e.g., "3" or "1,2,6"; empty for all): ');
+    const joints = answer.trim() === ''
+      ? [1, 2, 3, 4, 5, 6]
+      : answer.split(',').map((value) => parseInt(value.trim(), 10));
+
+    if (joints.some((jointId) => Number.isNaN(jointId) || jointId < 1 || jointId > 6)) {
+      console.log('❌ Joint numbers must be between 1 and 6');
+
+      return;
+    }
+
+    console.log('\n🎯 Servo calibration');
+    console.log('⚠️  Each joint is released in turn: support the arm while you align it!');
+
+    const calibration = new ServoCalibration(this.robot, { logger: consoleLogger });
+    const results = await calibration.run(async (jointId: TJointId) => {
+      await this._ask(`Move joint ${jointId} to its zero mark, then press Enter...`);
+    }, { joints: joints as TJointId[] });
+
+    console.log('\n📋 Calibration results:');
+    results.forEach((result) => {
+      const status = result.verified ? '✅' : '⚠️ ';
+
+      console.log(`${status} Joint ${result.jointId}: ${result.angle.toFixed(2)}°`);
+    });
+  }
+
+  /**
+   * Ask a question and wait for the answer
+   * @param question - Prompt to show
+   * @returns Promise that resolves with the answer
+   */
+  private async _ask(question: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.rl) {
+        reject(new Error('Readline interface not initialized'));
+
+        return;
+      }
+      this.rl.question(question, resolve);
     });
   }
 
@@ -199,7 +268,7 @@ export class MyCobotCLI {
    */
   private async _testGripper(): Promise<void> {
     console.log('🦾 Testing gripper...');
-    
+
     if (!this.robot) {
       throw new Error('Robot not initialized');
     }
@@ -207,15 +276,19 @@ export class MyCobotCLI {
     try {
       console.log('Opening gripper...');
       await this.robot.setGripperState(0, 50); // Open
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      
+      await new Promise((resolve) => {
+        setTimeout(resolve, 2000);
+      });
+
       console.log('Closing gripper...');
       await this.robot.setGripperState(1, 50); // Close
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      
+      await new Promise((resolve) => {
+        setTimeout(resolve, 2000);
+      });
+
       console.log('Opening gripper again...');
       await this.robot.setGripperState(0, 50); // Open
-      
+
       console.log('✅ Gripper test completed');
     } catch (error) {
       console.log('⚠️  Gripper test failed (gripper may not be connected)');
@@ -226,10 +299,10 @@ export class MyCobotCLI {
   /**
    * Manual movement demonstration
    */
-  private async _manualMovementDemo(): Promise<void> {
+  private _manualMovementDemo(): void {
     console.log('\n🎯 Manual Movement Demo');
     console.log('=======================');
-    
+
     const demoSequence: Array<{ name: string; angles: TJointAngles }> = [
       { name: 'Home Position', angles: [0, 0, 0, 0, 0, 0] },
       { name: 'Raised Position', angles: [0, -30, -30, 0, 0, 0] },
@@ -240,7 +313,7 @@ export class MyCobotCLI {
     ];
 
     console.log('This demo will move the robot through a predefined sequence.');
-    
+
     if (!this.rl) {
       throw new Error('Readline interface not initialized');
     }
@@ -248,7 +321,7 @@ export class MyCobotCLI {
     this.rl.question('Continue? (y/n): ', async (answer: string) => {
       if (answer.toLowerCase() !== 'y') {
         this._showMainMenu();
-        
+
         return;
       }
 
@@ -259,20 +332,18 @@ export class MyCobotCLI {
       try {
         console.log('⚡ Powering on servos...');
         await this.robot.powerOn();
-        await new Promise((resolve) => setTimeout(resolve, 1000));
+        await new Promise((resolve) => {
+          setTimeout(resolve, 1000);
+        });
 
         for (const [index, position] of demoSequence.entries()) {
           console.log(`\n📍 Step ${index + 1}: Moving to ${position.name}...`);
-          await this.robot.sendAngles(position.angles, DEMO_SPEED);
-          
-          // Wait for movement to complete (estimated time)
-          await new Promise((resolve) => setTimeout(resolve, 3000));
+          await this.robot.sendAnglesAndWait(position.angles, DEMO_SPEED);
         }
 
         console.log('\n✅ Demo sequence completed!');
         console.log('🔓 Releasing servos for safety...');
         await this.robot.releaseAllServos();
-        
       } catch (error) {
         console.error(`❌ Demo failed: ${(error as Error).message}`);
       }
@@ -284,12 +355,12 @@ export class MyCobotCLI {
   /**
    * Record a new movement
    */
-  private async _recordMovement(): Promise<void> {
+  private _recordMovement(): void {
     console.log('\n📹 Record New Movement');
     console.log('======================');
     console.log('This will record the robot\'s position as you move it manually.');
     console.log('Make sure to support the robot arm during recording!');
-    
+
     if (!this.rl) {
       throw new Error('Readline interface not initialized');
     }
@@ -297,7 +368,7 @@ export class MyCobotCLI {
     this.rl.question('\nReady to start recording? (y/n): ', async (answer: string) => {
       if (answer.toLowerCase() !== 'y') {
         this._showMainMenu();
-        
+
         return;
       }
 
@@ -308,15 +379,15 @@ export class MyCobotCLI {
       try {
         // Start recording
         await this.recorder.startRecording();
-        
+
         console.log('\n🔴 RECORDING IN PROGRESS');
         console.log('========================');
         console.log('Move the robot manually to teach the desired movement.');
         console.log('The robot will sample positions 20 times per second.');
-        
+
         // Set up a way to stop recording
         console.log('\n⏹️  Press ENTER to stop recording...');
-        
+
         const recordingPromise = new Promise<void>((resolve) => {
           const onKeyPress = (): void => {
             process.stdin.setRawMode(false);
@@ -334,7 +405,7 @@ export class MyCobotCLI {
 
         // Stop recording
         const recordingInfo = await this.recorder.stopRecording();
-        
+
         console.log('\n✅ Recording completed!');
         console.log(`📊 Captured ${recordingInfo.frameCount} frames`);
         console.log(`⏱️  Duration: ${(recordingInfo.duration / 1000).toFixed(2)} seconds`);
@@ -348,12 +419,12 @@ export class MyCobotCLI {
           if (!filename.trim()) {
             console.log('❌ No filename provided. Recording not saved.');
             this._showMainMenu();
-            
+
             return;
           }
 
           let finalFilename = filename;
-          
+
           if (!finalFilename.endsWith('.json')) {
             finalFilename += '.json';
           }
@@ -371,7 +442,6 @@ export class MyCobotCLI {
 
           setTimeout(() => this._showMainMenu(), 1000);
         });
-
       } catch (error) {
         console.error(`❌ Recording failed: ${(error as Error).message}`);
         setTimeout(() => this._showMainMenu(), 1000);
@@ -392,12 +462,12 @@ export class MyCobotCLI {
 
     try {
       const recordings = await this.recorder.listRecordings('.');
-      
+
       if (recordings.length === 0) {
         console.log('📂 No recordings found in current directory.');
         console.log('Record a movement first (option 3) or check your file paths.');
         setTimeout(() => this._showMainMenu(), 2000);
-        
+
         return;
       }
 
@@ -405,7 +475,7 @@ export class MyCobotCLI {
       recordings.forEach((recording: IRecordingFileInfo, index: number) => {
         const { filename, frameCount, metadata } = recording;
         const duration = metadata?.duration ? (metadata.duration / 1000).toFixed(1) : '?';
-        
+
         console.log(`${index + 1}. ${filename} (${frameCount} frames, ${duration}s)`);
       });
 
@@ -413,34 +483,34 @@ export class MyCobotCLI {
         throw new Error('Readline interface not initialized');
       }
 
-      this.rl.question('\nSelect recording number: ', async (answer: string) => {
+      this.rl.question('\nSelect recording number: ', (answer: string) => {
         const recordingIndex = parseInt(answer, 10) - 1;
-        
+
         if (recordingIndex < 0 || recordingIndex >= recordings.length) {
           console.log('❌ Invalid recording number');
           setTimeout(() => this._showMainMenu(), 1000);
-          
+
           return;
         }
 
         const selectedRecording = recordings[recordingIndex];
-        
+
         if (!selectedRecording) {
           console.log('❌ Recording not found');
           setTimeout(() => this._showMainMenu(), 1000);
-          
+
           return;
         }
 
         console.log(`Selected: ${selectedRecording.filename}`);
-        
+
         if (!this.rl) {
           throw new Error('Readline interface not initialized');
         }
 
         this.rl.question('Playback speed (0.1-3.0, default 1.0): ', async (speedInput: string) => {
           let speed = 1.0;
-          
+
           if (speedInput.trim()) {
             speed = parseFloat(speedInput);
             if (speed < 0.1 || speed > 3.0) {
@@ -455,7 +525,7 @@ export class MyCobotCLI {
 
           try {
             console.log(`\n▶️  Playing ${selectedRecording.filename} at ${speed}x speed...`);
-            
+
             await this.recorder.playRecording(selectedRecording.path, {
               speed,
               moveSpeed: 100,
@@ -463,7 +533,6 @@ export class MyCobotCLI {
             });
 
             console.log('✅ Playback completed!');
-            
           } catch (error) {
             console.error(`❌ Playback failed: ${(error as Error).message}`);
           }
@@ -471,7 +540,6 @@ export class MyCobotCLI {
           setTimeout(() => this._showMainMenu(), 1000);
         });
       });
-
     } catch (error) {
       console.error(`❌ Error loading recordings: ${(error as Error).message}`);
       setTimeout(() => this._showMainMenu(), 1000);
@@ -491,11 +559,11 @@ export class MyCobotCLI {
 
     try {
       const recordings = await this.recorder.listRecordings('.');
-      
+
       if (recordings.length === 0) {
         console.log('📂 No recordings found in current directory.');
         setTimeout(() => this._showMainMenu(), 2000);
-        
+
         return;
       }
 
@@ -503,10 +571,10 @@ export class MyCobotCLI {
       recordings.forEach((recording: IRecordingFileInfo, index: number) => {
         const { filename, frameCount, metadata } = recording;
         const duration = metadata?.duration ? (metadata.duration / 1000).toFixed(1) : '?';
-        const recordedAt = metadata?.recordedAt 
-          ? new Date(metadata.recordedAt).toLocaleDateString() 
+        const recordedAt = metadata?.recordedAt
+          ? new Date(metadata.recordedAt).toLocaleDateString()
           : 'Unknown date';
-        
+
         console.log(`${index + 1}. ${filename}`);
         console.log(`   📊 ${frameCount} frames, ${duration}s duration`);
         console.log(`   📅 Recorded: ${recordedAt}`);
@@ -531,11 +599,12 @@ export class MyCobotCLI {
             break;
           default:
             console.log('❌ Invalid option');
-            setTimeout(() => void this._manageRecordings(), 1000);
+            setTimeout(() => {
+              void this._manageRecordings();
+            }, 1000);
             break;
         }
       });
-
     } catch (error) {
       console.error(`❌ Error managing recordings: ${(error as Error).message}`);
       setTimeout(() => this._showMainMenu(), 1000);
@@ -551,22 +620,26 @@ export class MyCobotCLI {
       throw new Error('Readline interface not initialized');
     }
 
-    this.rl.question('Enter recording number to delete: ', async (answer: string) => {
+    this.rl.question('Enter recording number to delete: ', (answer: string) => {
       const recordingIndex = parseInt(answer, 10) - 1;
-      
+
       if (recordingIndex < 0 || recordingIndex >= recordings.length) {
         console.log('❌ Invalid recording number');
-        setTimeout(() => void this._manageRecordings(), 1000);
-        
+        setTimeout(() => {
+          void this._manageRecordings();
+        }, 1000);
+
         return;
       }
 
       const recordingToDelete = recordings[recordingIndex];
-      
+
       if (!recordingToDelete) {
         console.log('❌ Recording not found');
-        setTimeout(() => void this._manageRecordings(), 1000);
-        
+        setTimeout(() => {
+          void this._manageRecordings();
+        }, 1000);
+
         return;
       }
 
@@ -578,7 +651,7 @@ export class MyCobotCLI {
         if (confirmation.toLowerCase() === 'y') {
           try {
             const fs = await import('fs/promises');
-            
+
             await fs.unlink(recordingToDelete.path);
             console.log(`✅ Deleted ${recordingToDelete.filename}`);
           } catch (error) {
@@ -587,8 +660,10 @@ export class MyCobotCLI {
         } else {
           console.log('❌ Delete cancelled');
         }
-        
-        setTimeout(() => void this._manageRecordings(), 1000);
+
+        setTimeout(() => {
+          void this._manageRecordings();
+        }, 1000);
       });
     });
   }
@@ -609,7 +684,7 @@ export class MyCobotCLI {
       console.log('⚡ Power Status:');
       try {
         const isPowered = await this.robot.isPowerOn();
-        
+
         console.log(`   Servos: ${isPowered ? '✅ ON' : '❌ OFF'}`);
       } catch (error) {
         console.log('   Servos: ❓ Unknown (command not supported)');
@@ -619,7 +694,7 @@ export class MyCobotCLI {
       console.log('\n📐 Current Joint Angles:');
       try {
         const angles = await this.robot.getAngles();
-        
+
         angles.forEach((angle: number, index: number) => {
           console.log(`   Joint ${index + 1}: ${angle.toFixed(2)}°`);
         });
@@ -631,7 +706,7 @@ export class MyCobotCLI {
       console.log('\n🗺️  Current Cartesian Position:');
       try {
         const coords = await this.robot.getCoords();
-        
+
         console.log(`   Position: X=${coords[0].toFixed(1)}mm, Y=${coords[1].toFixed(1)}mm, Z=${coords[2].toFixed(1)}mm`);
         console.log(`   Rotation: Rx=${coords[3].toFixed(1)}°, Ry=${coords[4].toFixed(1)}°, Rz=${coords[5].toFixed(1)}°`);
       } catch (error) {
@@ -641,14 +716,13 @@ export class MyCobotCLI {
       // Recording status
       if (this.recorder) {
         const recordingStatus = this.recorder.getStatus();
-        
+
         console.log('\n📹 Recording Status:');
         console.log(`   Recording: ${recordingStatus.isRecording ? '🔴 ACTIVE' : '⏹️  STOPPED'}`);
         console.log(`   Playing: ${recordingStatus.isPlaying ? '▶️  ACTIVE' : '⏹️  STOPPED'}`);
         console.log(`   Sample Rate: ${recordingStatus.sampleRate} Hz`);
         console.log(`   Current Frames: ${recordingStatus.currentFrameCount}`);
       }
-
     } catch (error) {
       console.error(`❌ Error getting robot status: ${(error as Error).message}`);
     }
@@ -694,7 +768,6 @@ export class MyCobotCLI {
 
       console.log('✅ Shutdown complete. Goodbye!');
       process.exit(0);
-
     } catch (error) {
       console.error(`❌ Error during shutdown: ${(error as Error).message}`);
       process.exit(1);
@@ -707,7 +780,7 @@ export class MyCobotCLI {
  */
 async function main(): Promise<void> {
   // Handle Ctrl+C gracefully
-  process.on('SIGINT', async () => {
+  process.on('SIGINT', () => {
     console.log('\n\n⚠️  Interrupt received. Shutting down safely...');
     process.exit(0);
   });
@@ -725,7 +798,7 @@ async function main(): Promise<void> {
 
   // Start the CLI application
   const cli = new MyCobotCLI();
-  
+
   await cli.initialize();
 }
 
@@ -735,4 +808,3 @@ if (import.meta.url === `file://${process.argv[1]}`) {
 }
 
 export default MyCobotCLI;
-
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+
+/**
+ * Simulator Demo
+ * Drives MyCobotController and MovementRecorder against the in-process simulator,
+ * no robot required
+ */
+
+import {
+  MyCobotController,
+  MovementRecorder,
+  MyCobotSimulator,
+  SimulatorTransport,
+  consoleLogger,
+} from '../lib/index.js';
+
+/**
+ * Run a short session against the simulated robot
+ * @returns Promise that resolves when the demo is complete
+ */
+async function simulatorDemo(): Promise<void> {
+  console.log('🧪 myCobot Simulator Demo');
+  console.log('=========================\n');
+
+  const simulator = new MyCobotSimulator();
+  const robot = new MyCobotController(new SimulatorTransport(simulator));
+
+  try {
+    await robot.connect();
+
+    console.log(`Firmware version: ${await robot.getSystemVersion()}`);
+    console.log(`Power status: ${(await robot.isPowerOn()) ? 'ON' : 'OFF'}`);
+
+    console.log('\n📈 Moving to raised position...');
+    await robot.sendAngles([0, -30, -30, 0, 0, 0], 50);
+
+    while (await robot.isMoving()) {
+      const angles = await robot.getAngles();
+
+      console.log(`  ${angles.map((angle) => angle.toFixed(1).padStart(6)).join(' ')}`);
+      await new Promise((resolve) => {
+        setTimeout(resolve, 100);
+      });
+    }
+
+    console.log('\n📹 Recording a simulated hand-guided movement...');
+    const recorder = new MovementRecorder(robot, { sampleRate: 10, logger: consoleLogger });
+
+    await recorder.startRecording();
+    for (let step = 0; step <= 10; step += 1) {
+      simulator.moveByHand([step * 3, -30, -30, 0, step * 2, 0]);
+      await new Promise((resolve) => {
+        setTimeout(resolve, 100);
+      });
+    }
+    await recorder.stopRecording();
+
+    console.log('\n🎬 Playing it back...');
+    await recorder.playRecording({
+      metadata: {
+        recordedAt: new Date().toISOString(),
+        duration: 0,
+        frameCount: recorder.getCurrentRecording().length,
+        sampleRate: 10,
+        recordingMode: 'angles',
+      },
+      frames: recorder.getCurrentRecording(),
+    });
+
+    while (await robot.isMoving()) {
+      await new Promise((resolve) => {
+        setTimeout(resolve, 100);
+      });
+    }
+
+    console.log(`\nFinal simulator state: ${JSON.stringify(simulator.getState().angles)}`);
+  } finally {
+    await robot.disconnect();
+  }
+}
+
+// Run the demo if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  simulatorDemo().catch((error: Error) => {
+    console.error('❌ Simulator demo failed:', error.message);
+    process.exit(1);
+  });
+}
+
+export default simulatorDemo;
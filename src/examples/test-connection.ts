@@ -34,15 +34,17 @@ async function testConnection(portPath: string): Promise<void> {
     console.log('✅ Serial connection established');
 
     // Give the robot a moment to initialize
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    await new Promise((resolve) => {
+      setTimeout(resolve, 1000);
+    });
 
     // Test 2: Power status check
     console.log('\n⚡ Test 2: Checking power status...');
     try {
       const isPowered = await robot.isPowerOn();
-      
+
       console.log(`✅ Power status received: ${isPowered ? 'ON' : 'OFF'}`);
-      
+
       if (!isPowered) {
         console.log('💡 Note: Servos are currently powered off. This is normal.');
       }
@@ -55,7 +57,7 @@ async function testConnection(portPath: string): Promise<void> {
     console.log('\n📐 Test 3: Reading current joint angles...');
     try {
       const angles = await robot.getAngles();
-      
+
       console.log('✅ Joint angles received:');
       angles.forEach((angle: number, index: number) => {
         console.log(`   Joint ${index + 1}: ${angle.toFixed(2)}°`);
@@ -70,7 +72,7 @@ async function testConnection(portPath: string): Promise<void> {
     console.log('\n🗺️  Test 4: Reading current cartesian coordinates...');
     try {
       const coords = await robot.getCoords();
-      
+
       console.log('✅ Cartesian coordinates received:');
       console.log(`   X: ${coords[0].toFixed(2)}mm`);
       console.log(`   Y: ${coords[1].toFixed(2)}mm`);
@@ -89,23 +91,22 @@ async function testConnection(portPath: string): Promise<void> {
     console.log('✅ Serial communication is working');
     console.log('✅ Robot is responding to commands');
     console.log('✅ Ready for control operations');
-    
+
     console.log('\n🚀 Next steps:');
     console.log('1. Run "npm start" to launch the interactive CLI demo');
     console.log('2. Or use this library in your own Node.js applications');
     console.log(`3. Your robot port: ${portPath}`);
-
   } catch (error) {
     console.log('\n❌ Connection test failed!');
     console.log(`Error: ${(error as Error).message}`);
-    
+
     console.log('\n🔧 Troubleshooting steps:');
     console.log('1. Check that your myCobot is connected via USB');
     console.log('2. Ensure the robot has power (8-12V DC supply connected)');
     console.log('3. Verify the M5Stack Basic is in "Transponder" mode');
     console.log('4. Try a different port (run "npm run detect-port" to see options)');
     console.log('5. Check that no other applications are using the serial port');
-    
+
     process.exit(1);
   } finally {
     // Clean up
@@ -127,4 +128,3 @@ if (import.meta.url === `file://${process.argv[1]}`) {
 }
 
 export default testConnection;
-
@@ -0,0 +1,94 @@
+/**
+ * AbortSignal helpers shared by the controller, dispatcher and recorder
+ */
+
+import { AbortError } from './errors.js';
+
+/**
+ * Options accepted by cancellable operations
+ */
+export interface IAbortOptions {
+  /** Signal that cancels the operation, rejecting it with AbortError */
+  readonly signal?: AbortSignal | undefined;
+}
+
+/**
+ * Throw an AbortError if the signal has already been aborted
+ * @param signal - Optional abort signal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted === true) {
+    throw new AbortError(undefined, { cause: signal.reason });
+  }
+}
+
+/**
+ * Rethrow a failure caused by cancellation as AbortError, so callers that wrap
+ * errors in their own messages keep aborts recognizable
+ * @param error - Caught error
+ * @param signal - Signal of the operation
+ */
+export function rethrowIfAborted(error: unknown, signal?: AbortSignal): void {
+  if (error instanceof AbortError) {
+    throw error;
+  }
+  throwIfAborted(signal);
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @returns Promise that resolves after the delay
+ */
+export async function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new AbortError(undefined, { cause: signal?.reason }));
+    };
+
+    timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Reject as soon as the signal aborts, otherwise settle like the given promise
+ * The underlying operation is not cancelled; it must observe the signal itself
+ * @param promise - Promise to wrap
+ * @param signal - Optional abort signal
+ * @returns Promise that settles with the first of the two
+ */
+export async function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => {
+      reject(new AbortError(undefined, { cause: signal.reason }));
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
@@ -5,6 +5,8 @@
 
 export const COMMAND_IDS = {
   SOFTWARE_VERSION: 0x02,
+  GET_ERROR_INFO: 0x07,
+  CLEAR_ERROR_INFO: 0x08,
   GET_ANGLES: 0x20,
   SEND_ANGLES: 0x22,
   SEND_ANGLE: 0x21,
@@ -20,22 +22,44 @@ export const COMMAND_IDS = {
   POWER_OFF: 0x11,
   IS_POWER_ON: 0x12,
   RELEASE_ALL_SERVOS: 0x13,
+  SET_FREE_MODE: 0x1A,
+  IS_FREE_MODE: 0x1B,
   IS_SERVO_ENABLE: 0x50,
+  SET_SERVO_DATA: 0x52,
+  GET_SERVO_DATA: 0x53,
+  SET_SERVO_CALIBRATION: 0x54,
   RELEASE_SERVO: 0x56,
   FOCUS_SERVO: 0x57,
   GET_SPEED: 0x40,
   SET_SPEED: 0x41,
+  GET_JOINT_MIN_ANGLE: 0x4A,
+  GET_JOINT_MAX_ANGLE: 0x4B,
+  SET_JOINT_MIN: 0x4C,
+  SET_JOINT_MAX: 0x4D,
   GET_GRIPPER_VALUE: 0x65,
   SET_GRIPPER_STATE: 0x66,
   SET_GRIPPER_VALUE: 0x67,
   SET_GRIPPER_INI: 0x68,
   IS_GRIPPER_MOVING: 0x69,
+  SET_PIN_MODE: 0x60,
+  SET_DIGITAL_OUTPUT: 0x61,
+  GET_DIGITAL_INPUT: 0x62,
+  SET_PWM_OUTPUT: 0x64,
+  SET_COLOR: 0x6A,
+  SET_BASIC_OUTPUT: 0xA0,
+  GET_BASIC_INPUT: 0xA1,
   JOG_ANGLE: 0x30,
   JOG_COORD: 0x32,
+  JOG_STOP: 0x34,
   SET_ENCODER: 0x3A,
   GET_ENCODER: 0x3B,
   SET_ENCODERS: 0x3C,
   GET_ENCODERS: 0x3D,
+  SET_ENCODERS_DRAG: 0x3E,
+  GET_SERVO_CURRENTS: 0xE2,
+  GET_SERVO_VOLTAGES: 0xE3,
+  GET_SERVO_STATUS: 0xE4,
+  GET_SERVO_TEMPS: 0xE5,
 } as const;
 
 export const PROTOCOL = {
@@ -48,7 +72,45 @@ export const PROTOCOL = {
   MIN_PACKET_SIZE: 5,
 } as const;
 
-export type TCommandId = typeof COMMAND_IDS[keyof typeof COMMAND_IDS];
+/**
+ * Fixed-point scale of each cartesian coordinate on the wire:
+ * positions travel in tenths of a millimetre, rotations in hundredths of a degree
+ */
+export const COORD_SCALES = [10, 10, 10, 100, 100, 100] as const;
+
+/**
+ * Pin modes for SET_PIN_MODE
+ */
+export const PIN_MODES = {
+  INPUT: 0,
+  OUTPUT: 1,
+  INPUT_PULLUP: 2,
+} as const;
+
+/**
+ * Angle limits of a joint, in degrees
+ */
+export interface IJointLimits {
+  /** Lowest allowed angle */
+  readonly min: number;
+  /** Highest allowed angle */
+  readonly max: number;
+}
+
+/**
+ * Factory joint limits of the myCobot 280, in degrees
+ */
+export const MYCOBOT_280_JOINT_LIMITS: readonly IJointLimits[] = [
+  { min: -165, max: 165 },
+  { min: -165, max: 165 },
+  { min: -165, max: 165 },
+  { min: -165, max: 165 },
+  { min: -165, max: 165 },
+  { min: -175, max: 175 },
+];
+
+export type TCommandName = keyof typeof COMMAND_IDS;
+export type TCommandId = typeof COMMAND_IDS[TCommandName];
 export type TJointAngles = readonly [number, number, number, number, number, number];
 export type TCartesianCoords = readonly [number, number, number, number, number, number];
 export type TGripperState = 0 | 1;
@@ -56,6 +118,8 @@ export type TMovementSpeed = number;
 export type TJointId = 1 | 2 | 3 | 4 | 5 | 6;
 export type TCoordinateId = 1 | 2 | 3 | 4 | 5 | 6;
 export type TInterpolationMode = 0 | 1;
+export type TJogDirection = 0 | 1;
+export type TPinMode = typeof PIN_MODES[keyof typeof PIN_MODES];
+export type TPinSignal = 0 | 1;
 
 export default COMMAND_IDS;
-
@@ -0,0 +1,27 @@
+/**
+ * Conversions between raw servo encoder counts and joint angles
+ */
+
+/** Encoder counts per full revolution of a servo */
+export const ENCODER_RESOLUTION = 4096;
+
+/** Encoder count corresponding to 0 degrees */
+export const ENCODER_ZERO = 2048;
+
+/**
+ * Convert raw encoder counts to a joint angle
+ * @param count - Encoder counts (0-4095)
+ * @returns Angle in degrees
+ */
+export function encoderToDegrees(count: number): number {
+  return ((count - ENCODER_ZERO) * 360) / ENCODER_RESOLUTION;
+}
+
+/**
+ * Convert a joint angle to the nearest raw encoder count
+ * @param angle - Angle in degrees
+ * @returns Encoder counts
+ */
+export function degreesToEncoder(angle: number): number {
+  return Math.round(ENCODER_ZERO + (angle * ENCODER_RESOLUTION) / 360);
+}
@@ -0,0 +1,99 @@
+/**
+ * Error classes raised by the myCobot library
+ * Use instanceof checks to tell recoverable conditions apart
+ */
+
+import type { TCartesianCoords, TCommandId } from './command-ids.js';
+import type { TLinearPathRefusal } from './kinematics.js';
+
+/**
+ * Raised for pending and new commands when the connection drops unexpectedly
+ */
+export class ConnectionLostError extends Error {
+  constructor(message = 'Connection to myCobot lost') {
+    super(message);
+    this.name = 'ConnectionLostError';
+  }
+}
+
+/**
+ * Raised when a command does not receive its response in time
+ */
+export class CommandTimeoutError extends Error {
+  /** Command ID that timed out */
+  readonly commandId: TCommandId;
+  /** Timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+  /** ID of the request that timed out */
+  readonly requestId: number;
+
+  constructor(commandId: TCommandId, timeoutMs: number, requestId: number) {
+    super(`Command timeout: 0x${commandId.toString(16).toUpperCase()}`);
+    this.name = 'CommandTimeoutError';
+    this.commandId = commandId;
+    this.timeoutMs = timeoutMs;
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * Raised when the arm does not reach a motion target in time
+ */
+export class MotionTimeoutError extends Error {
+  /** Requested pose; null entries were not part of the motion */
+  readonly target: readonly (number | null)[];
+  /** Last pose read from the robot */
+  readonly pose: readonly number[];
+  /** Wait that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(target: readonly (number | null)[], pose: readonly number[], timeoutMs: number) {
+    super(`Target not reached within ${timeoutMs}ms (last pose: [${pose.map((value) => value.toFixed(2)).join(', ')}])`);
+    this.name = 'MotionTimeoutError';
+    this.target = target;
+    this.pose = pose;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Raised before any motion when a straight-line Cartesian move cannot be followed
+ */
+export class LinearMoveError extends Error {
+  /** Why the path was refused */
+  readonly reason: TLinearPathRefusal;
+  /** First step that failed, counted from 1 */
+  readonly step: number;
+  /** Number of steps in the path */
+  readonly steps: number;
+  /** Tool pose at the failing step */
+  readonly pose: TCartesianCoords;
+
+  constructor(
+    message: string,
+    reason: TLinearPathRefusal,
+    step: number,
+    steps: number,
+    pose: TCartesianCoords,
+  ) {
+    super(message);
+    this.name = 'LinearMoveError';
+    this.reason = reason;
+    this.step = step;
+    this.steps = steps;
+    this.pose = pose;
+  }
+}
+
+/**
+ * Raised when an operation is cancelled through an AbortSignal
+ */
+export class AbortError extends Error {
+  /** Same code Node.js uses for its own abort errors */
+  readonly code = 'ABORT_ERR';
+
+  constructor(message = 'The operation was aborted', options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AbortError';
+  }
+}
@@ -4,17 +4,29 @@
  */
 
 export { MyCobotController } from './mycobot-controller.js';
-export type { 
-  IMyCobotControllerOptions, 
-  TPowerStatus, 
-  TGripperMovementStatus, 
-  TEncoderValue, 
-  TEncoderValues 
+export type {
+  IMyCobotControllerOptions,
+  IMyCobotControllerEvents,
+  IReconnectOptions,
+  ICommandOptions,
+  IDiscoveryOptions,
+  IDiscoveredRobot,
+  IMotionWaitOptions,
+  ILinearMoveOptions,
+  IServoDiagnostics,
+  IServoDiagnosticsOptions,
+  IServoErrorFlags,
+  TServoValues,
+  TPowerStatus,
+  TGripperMovementStatus,
+  TEncoderValue,
+  TEncoderValues,
 } from './mycobot-controller.js';
 
 export { MovementRecorder } from './movement-recorder.js';
 export type {
   TRecordingMode,
+  TTeachMode,
   TRecordingPosition,
   IMovementFrame,
   IRecordingMetadata,
@@ -22,22 +34,156 @@ export type {
   IRecordingFileInfo,
   IMovementRecorderOptions,
   IPlaybackOptions,
+  TCoordsPlayback,
   IRecordingResult,
-  IRecorderStatus
+  IRecorderStatus,
 } from './movement-recorder.js';
 
-export { COMMAND_IDS, PROTOCOL } from './command-ids.js';
+export { RobotFleet } from './robot-fleet.js';
+export type {
+  IRobotFleetOptions,
+  IFleetRobotOptions,
+  IFleetMember,
+  IRobotHealth,
+  IRobotFleetEvents,
+  TFleetResult,
+} from './robot-fleet.js';
+
+export {
+  forwardKinematics,
+  inverseKinematics,
+  interpolatePose,
+  findSingularity,
+  planLinearPath,
+  MYCOBOT_280_DH,
+  FORWARD_KINEMATICS_TOLERANCE,
+} from './kinematics.js';
+export type {
+  IDhParameters,
+  IKinematicsOptions,
+  IInverseKinematicsOptions,
+  ISingularityOptions,
+  ILinearPathOptions,
+  ILinearPath,
+  TInverseKinematicsResult,
+  TUnreachableReason,
+  TSingularity,
+  TLinearPathRefusal,
+} from './kinematics.js';
+
+export { JointTrajectory, planTrajectory } from './trajectory-planner.js';
+export type {
+  ITrajectoryOptions,
+  ITrajectoryPoint,
+  TJointLimitValue,
+  TVelocityProfile,
+} from './trajectory-planner.js';
+
+export { TrajectoryExecutor } from './trajectory-executor.js';
+export type { ITrajectoryExecutorOptions } from './trajectory-executor.js';
+
+export {
+  ENCODER_RESOLUTION,
+  ENCODER_ZERO,
+  encoderToDegrees,
+  degreesToEncoder,
+} from './encoders.js';
+
+export {
+  ConnectionLostError,
+  CommandTimeoutError,
+  MotionTimeoutError,
+  LinearMoveError,
+  AbortError,
+} from './errors.js';
+export {
+  throwIfAborted,
+  rethrowIfAborted,
+  abortableDelay,
+  abortable,
+} from './abort.js';
+export type { IAbortOptions } from './abort.js';
+
+export { RequestDispatcher } from './request-dispatcher.js';
 export type {
+  IRequestDispatcherOptions,
+  IRequestDispatcherEvents,
+  IRequestInfo,
+  IDispatchOptions,
+} from './request-dispatcher.js';
+
+export { RetryPolicy, DEFAULT_IDEMPOTENT_COMMANDS, MOTION_COMMANDS } from './retry-policy.js';
+export type { IRetryOptions } from './retry-policy.js';
+
+export { silentLogger, consoleLogger } from './logger.js';
+export type { ILogger } from './logger.js';
+
+export { SerialTransport, isLikelyMyCobotPort } from './serial-transport.js';
+export type { ISerialTransportOptions, ISerialPortInfo } from './serial-transport.js';
+
+export { TcpTransport } from './tcp-transport.js';
+export type { ITcpTransportOptions } from './tcp-transport.js';
+
+export type { ITransport, ITransportEvents } from './transport.js';
+
+export { MyCobotSimulator, SimulatorTransport } from './mycobot-simulator.js';
+export type {
+  IMyCobotSimulatorOptions,
+  ISimulatorState,
+  ISimulatedServoHealth,
+  ISimulatedPwmOutput,
+} from './mycobot-simulator.js';
+
+export {
+  FrameParser,
+  encodeFrame,
+  decodeFrame,
+  MAX_PAYLOAD_SIZE,
+} from './protocol-codec.js';
+export type { IFrame, IFrameParserStats, IFrameParserEvents } from './protocol-codec.js';
+
+export { ServoCalibration } from './servo-calibration.js';
+export type {
+  IServoCalibrationOptions,
+  ICalibrationRunOptions,
+  ICalibrationResult,
+  TOperatorPrompt,
+} from './servo-calibration.js';
+
+export { ServoTuning } from './servo-tuning.js';
+export type {
+  IServoTuningJoint,
+  IServoTuningSnapshot,
+  IServoTuningOptions,
+  IServoRestoreResult,
+} from './servo-tuning.js';
+
+export { SERVO_REGISTERS, WIDE_SERVO_REGISTERS } from './servo-registers.js';
+export type { TServoRegister, TServoRegisterName } from './servo-registers.js';
+
+export {
+  COMMAND_IDS,
+  COORD_SCALES,
+  MYCOBOT_280_JOINT_LIMITS,
+  PIN_MODES,
+  PROTOCOL,
+} from './command-ids.js';
+export type {
+  IJointLimits,
   TCommandId,
+  TCommandName,
   TJointAngles,
   TCartesianCoords,
   TGripperState,
   TMovementSpeed,
   TJointId,
   TCoordinateId,
-  TInterpolationMode
+  TInterpolationMode,
+  TJogDirection,
+  TPinMode,
+  TPinSignal,
 } from './command-ids.js';
 
 // Default export for convenience
+// eslint-disable-next-line no-restricted-exports
 export { MyCobotController as default } from './mycobot-controller.js';
-
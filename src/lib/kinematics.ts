@@ -0,0 +1,814 @@
+/**
+ * Offline kinematics of the myCobot 280
+ * Poses use the same [x, y, z, rx, ry, rz] convention as getCoords(): millimetres
+ * in the base frame and fixed-axis XYZ rotations in degrees (R = Rz(rz)·Ry(ry)·Rx(rx))
+ */
+
+import {
+  MYCOBOT_280_JOINT_LIMITS,
+  type IJointLimits,
+  type TCartesianCoords,
+  type TJointAngles,
+} from './command-ids.js';
+import { LinearMoveError } from './errors.js';
+
+/**
+ * Denavit-Hartenberg parameters of one joint (standard convention)
+ */
+export interface IDhParameters {
+  /** Offset along the previous z axis, in millimetres */
+  readonly d: number;
+  /** Length along the new x axis, in millimetres */
+  readonly a: number;
+  /** Twist about the new x axis, in radians */
+  readonly alpha: number;
+  /** Added to the joint angle, in radians, so that 0° matches the robot's zero pose */
+  readonly offset: number;
+}
+
+/**
+ * Kinematics configuration options
+ */
+export interface IKinematicsOptions {
+  /** Tool pose in the flange frame as [x, y, z, rx, ry, rz] (default: the bare flange) */
+  readonly tool?: TCartesianCoords;
+  /** Arm geometry (default: MYCOBOT_280_DH) */
+  readonly dh?: readonly IDhParameters[];
+}
+
+/**
+ * Inverse kinematics configuration options
+ */
+export interface IInverseKinematicsOptions extends IKinematicsOptions {
+  /** Allowed range of each joint in degrees (default: MYCOBOT_280_JOINT_LIMITS) */
+  readonly jointLimits?: readonly IJointLimits[];
+}
+
+/**
+ * Why a pose has no inverse kinematics solution:
+ * 'out-of-reach' when no joint angles produce it,
+ * 'joint-limits' when every solution violates a limit
+ */
+export type TUnreachableReason = 'out-of-reach' | 'joint-limits';
+
+/**
+ * Outcome of an inverse kinematics query
+ */
+export type TInverseKinematicsResult =
+  | {
+    /** The pose can be reached */
+    readonly reachable: true;
+    /** Joint solutions within the limits, nearest to the seed first */
+    readonly solutions: readonly TJointAngles[];
+  }
+  | {
+    /** The pose cannot be reached */
+    readonly reachable: false;
+    /** Why no solution was found */
+    readonly reason: TUnreachableReason;
+    /** Always empty */
+    readonly solutions: readonly TJointAngles[];
+  };
+
+/**
+ * Configuration in which the arm loses a degree of freedom:
+ * 'shoulder' when the wrist centre is above the joint 1 axis, 'elbow' when the arm
+ * is fully stretched or folded, 'wrist' when joints 4 and 6 line up
+ */
+export type TSingularity = 'shoulder' | 'elbow' | 'wrist';
+
+/**
+ * Why a straight-line path was refused:
+ * an unreachable step, a step near a singularity, or a joint jump between steps
+ */
+export type TLinearPathRefusal = TUnreachableReason | 'singularity' | 'joint-jump';
+
+/**
+ * Singularity check options
+ */
+export interface ISingularityOptions {
+  /** Arm geometry (default: MYCOBOT_280_DH) */
+  readonly dh?: readonly IDhParameters[];
+  /** Closest the elbow and wrist may come to a singularity, in degrees (default: 5) */
+  readonly margin?: number;
+}
+
+/**
+ * Straight-line path planning options
+ */
+export interface ILinearPathOptions extends IInverseKinematicsOptions {
+  /** Largest tool travel per step in millimetres (default: 2) */
+  readonly stepMm?: number;
+  /** Largest tool rotation per step in degrees (default: 2) */
+  readonly stepDegrees?: number;
+  /** Largest joint change between consecutive steps in degrees (default: 10) */
+  readonly maxJointStep?: number;
+  /** Closest the elbow and wrist may come to a singularity, in degrees (default: 5) */
+  readonly singularityMargin?: number;
+}
+
+/**
+ * Straight-line tool path solved into joint waypoints
+ */
+export interface ILinearPath {
+  /** Joint angles of every step after the start, the last one at the target */
+  readonly waypoints: readonly TJointAngles[];
+  /** Tool travel in millimetres */
+  readonly distance: number;
+  /** Tool rotation in degrees */
+  readonly rotation: number;
+}
+
+/**
+ * Nominal geometry of the myCobot 280, as used by its firmware
+ */
+export const MYCOBOT_280_DH: readonly IDhParameters[] = [
+  {
+    d: 131.22,
+    a: 0,
+    alpha: Math.PI / 2,
+    offset: 0,
+  },
+  {
+    d: 0,
+    a: -110.4,
+    alpha: 0,
+    offset: -Math.PI / 2,
+  },
+  {
+    d: 0,
+    a: -96,
+    alpha: 0,
+    offset: 0,
+  },
+  {
+    d: 63.4,
+    a: 0,
+    alpha: Math.PI / 2,
+    offset: -Math.PI / 2,
+  },
+  {
+    d: 75.05,
+    a: 0,
+    alpha: -Math.PI / 2,
+    offset: Math.PI / 2,
+  },
+  {
+    d: 45.6,
+    a: 0,
+    alpha: 0,
+    offset: 0,
+  },
+];
+
+/**
+ * Expected agreement between forwardKinematics() and getCoords() on a calibrated arm
+ * The model uses the nominal geometry; servo zero offsets, link tolerances and the
+ * rounding of reported coordinates account for the difference
+ */
+export const FORWARD_KINEMATICS_TOLERANCE = {
+  /** Position difference per axis, in millimetres */
+  position: 1,
+  /** Rotation difference per axis, in degrees */
+  rotation: 1,
+} as const;
+
+/**
+ * Homogeneous transform as a row-major 4x4 matrix
+ */
+type TMatrix4 = readonly (readonly number[])[];
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+/** Largest position error of a verified solution, in millimetres */
+const POSITION_EPSILON = 1e-3;
+/** Largest rotation matrix element error of a verified solution */
+const ROTATION_EPSILON = 1e-6;
+/** Solutions closer than this, in degrees, are duplicates */
+const DUPLICATE_EPSILON = 1e-3;
+/** Values this close to a singularity are treated as singular */
+const SINGULAR_EPSILON = 1e-9;
+/**
+ * |sin θ5| below which joint 6 is pinned to the seed (joint 5 within about 0.06° of
+ * straight): closer to the wrist singularity, the exact θ6 divides rounding noise by sin θ5
+ */
+const WRIST_SINGULAR_EPSILON = 1e-3;
+/** Closest the wrist centre may come to the joint 1 axis (beyond the d4 offset), in millimetres */
+const SHOULDER_SINGULARITY_DISTANCE = 10;
+
+/**
+ * Identity transform
+ * @returns 4x4 identity matrix
+ */
+function identity(): TMatrix4 {
+  return [
+    [1, 0, 0, 0],
+    [0, 1, 0, 0],
+    [0, 0, 1, 0],
+    [0, 0, 0, 1],
+  ];
+}
+
+/**
+ * Multiply two homogeneous transforms
+ * @param left - Left operand
+ * @param right - Right operand
+ * @returns left · right
+ */
+function multiply(left: TMatrix4, right: TMatrix4): TMatrix4 {
+  return [0, 1, 2, 3].map((row) => [0, 1, 2, 3].map((column) => (
+    [0, 1, 2, 3].reduce((sum, k) => sum + (left[row]?.[k] ?? 0) * (right[k]?.[column] ?? 0), 0)
+  )));
+}
+
+/**
+ * Invert a rigid homogeneous transform
+ * @param matrix - Transform with an orthonormal rotation
+ * @returns Inverse transform
+ */
+function invert(matrix: TMatrix4): TMatrix4 {
+  const r = (row: number, column: number): number => matrix[row]?.[column] ?? 0;
+  const rows = [0, 1, 2].map((row) => [0, 1, 2].map((column) => r(column, row)));
+
+  return [
+    ...rows.map((row) => [
+      ...row,
+      -((row[0] ?? 0) * r(0, 3) + (row[1] ?? 0) * r(1, 3) + (row[2] ?? 0) * r(2, 3)),
+    ]),
+    [0, 0, 0, 1],
+  ];
+}
+
+/**
+ * Transform of one DH link
+ * @param joint - Link parameters
+ * @param theta - Joint angle in radians
+ * @returns Link transform
+ */
+function dhTransform(joint: IDhParameters, theta: number): TMatrix4 {
+  const ct = Math.cos(theta + joint.offset);
+  const st = Math.sin(theta + joint.offset);
+  const ca = Math.cos(joint.alpha);
+  const sa = Math.sin(joint.alpha);
+
+  return [
+    [ct, -st * ca, st * sa, joint.a * ct],
+    [st, ct * ca, -ct * sa, joint.a * st],
+    [0, sa, ca, joint.d],
+    [0, 0, 0, 1],
+  ];
+}
+
+/**
+ * Convert a pose to a homogeneous transform
+ * @param pose - Pose as [x, y, z, rx, ry, rz]
+ * @returns Transform
+ */
+function poseToMatrix(pose: TCartesianCoords): TMatrix4 {
+  const [x, y, z, rx, ry, rz] = pose;
+  const cx = Math.cos(rx * DEG_TO_RAD);
+  const sx = Math.sin(rx * DEG_TO_RAD);
+  const cy = Math.cos(ry * DEG_TO_RAD);
+  const sy = Math.sin(ry * DEG_TO_RAD);
+  const cz = Math.cos(rz * DEG_TO_RAD);
+  const sz = Math.sin(rz * DEG_TO_RAD);
+
+  return [
+    [cz * cy, cz * sy * sx - sz * cx, cz * sy * cx + sz * sx, x],
+    [sz * cy, sz * sy * sx + cz * cx, sz * sy * cx - cz * sx, y],
+    [-sy, cy * sx, cy * cx, z],
+    [0, 0, 0, 1],
+  ];
+}
+
+/**
+ * Convert a homogeneous transform to a pose
+ * @param matrix - Transform
+ * @returns Pose as [x, y, z, rx, ry, rz]
+ */
+function matrixToPose(matrix: TMatrix4): TCartesianCoords {
+  const r = (row: number, column: number): number => matrix[row]?.[column] ?? 0;
+  const cy = Math.hypot(r(0, 0), r(1, 0));
+  const ry = Math.atan2(-r(2, 0), cy);
+  let rx: number;
+  let rz: number;
+
+  if (cy > 1e-9) {
+    rx = Math.atan2(r(2, 1), r(2, 2));
+    rz = Math.atan2(r(1, 0), r(0, 0));
+  } else {
+    // Gimbal lock at ry = ±90°: only rz ∓ rx is defined, so report rx = 0
+    rx = 0;
+    rz = Math.atan2(-r(0, 1), r(1, 1));
+  }
+
+  return [r(0, 3), r(1, 3), r(2, 3), rx * RAD_TO_DEG, ry * RAD_TO_DEG, rz * RAD_TO_DEG];
+}
+
+/**
+ * Compute the homogeneous transform from the base to the tool
+ * @param angles - Joint angles in degrees
+ * @param options - Tool offset and arm geometry
+ * @returns Base-to-tool transform
+ */
+function forwardTransform(angles: TJointAngles, options: IKinematicsOptions): TMatrix4 {
+  const { tool, dh = MYCOBOT_280_DH } = options;
+
+  if (angles.length !== 6 || angles.some((angle) => !Number.isFinite(angle))) {
+    throw new Error('Angles must be an array of exactly 6 finite numbers');
+  }
+  if (dh.length !== 6) {
+    throw new Error('DH parameters must describe exactly 6 joints');
+  }
+
+  const flange = dh.reduce<TMatrix4>(
+    (transform, joint, i) => multiply(transform, dhTransform(joint, (angles[i] ?? 0) * DEG_TO_RAD)),
+    identity(),
+  );
+
+  return tool ? multiply(flange, poseToMatrix(tool)) : flange;
+}
+
+/**
+ * Wrap an angle into (-180, 180]
+ * @param angle - Angle in degrees
+ * @returns Equivalent angle in degrees
+ */
+function normalizeAngle(angle: number): number {
+  const wrapped = ((angle % 360) + 360) % 360;
+
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+/**
+ * Solve joints 2-4 once joints 1, 5 and 6 are known: they form a planar arm
+ * in the frame of joint 1, with two elbow branches
+ * @param flange - Base-to-flange transform
+ * @param dh - Arm geometry
+ * @param thetas - Joint 1, 5 and 6 angles in radians, DH offsets included
+ * @returns Candidate joint angles in degrees, not yet verified
+ */
+function solvePlanarArm(
+  flange: TMatrix4,
+  dh: readonly IDhParameters[],
+  thetas: { theta1: number; theta5: number; theta6: number },
+): number[][] {
+  const link = (index: number): IDhParameters => dh[index] as IDhParameters;
+  const { theta1, theta5, theta6 } = thetas;
+  const wrist = multiply(
+    dhTransform(link(4), theta5 - link(4).offset),
+    dhTransform(link(5), theta6 - link(5).offset),
+  );
+  const forearm = multiply(
+    multiply(invert(dhTransform(link(0), theta1 - link(0).offset)), flange),
+    invert(wrist),
+  );
+  const a2 = link(1).a;
+  const a3 = link(2).a;
+  const x = forearm[0]?.[3] ?? 0;
+  const y = forearm[1]?.[3] ?? 0;
+  const cos3 = (x * x + y * y - a2 * a2 - a3 * a3) / (2 * a2 * a3);
+
+  if (Math.abs(cos3) > 1 + SINGULAR_EPSILON) {
+    return [];
+  }
+
+  return [1, -1].map((elbow) => {
+    const theta3 = elbow * Math.acos(Math.max(-1, Math.min(1, cos3)));
+    const theta2 = Math.atan2(y, x) - Math.atan2(a3 * Math.sin(theta3), a2 + a3 * Math.cos(theta3));
+    const theta4 = Math.atan2(forearm[1]?.[0] ?? 0, forearm[0]?.[0] ?? 0) - theta2 - theta3;
+
+    return [theta1, theta2, theta3, theta4, theta5, theta6].map((theta, i) => (
+      normalizeAngle((theta - (dh[i]?.offset ?? 0)) * RAD_TO_DEG)
+    ));
+  });
+}
+
+/**
+ * Analytic solutions for the flange transform, as in Hawkins' derivation for
+ * arms with this joint layout: two wrist branches per shoulder branch and two
+ * elbow branches per wrist branch, up to 8 in total
+ * @param flange - Base-to-flange transform
+ * @param dh - Arm geometry
+ * @param seed - Seed angles in degrees, used where joint 6 is (nearly) undetermined
+ * @returns Candidate joint angles in degrees, not yet verified
+ */
+function solveFlange(
+  flange: TMatrix4,
+  dh: readonly IDhParameters[],
+  seed: TJointAngles,
+): number[][] {
+  const link4 = dh[3] as IDhParameters;
+  const link6 = dh[5] as IDhParameters;
+  const t = (row: number, column: number): number => flange[row]?.[column] ?? 0;
+  const inverse = invert(flange);
+  const n = (row: number, column: number): number => inverse[row]?.[column] ?? 0;
+  const candidates: number[][] = [];
+
+  // Wrist centre: step back along the flange z axis
+  const wristX = t(0, 3) - link6.d * t(0, 2);
+  const wristY = t(1, 3) - link6.d * t(1, 2);
+  const radius = Math.hypot(wristX, wristY);
+
+  if (radius < Math.abs(link4.d) - POSITION_EPSILON) {
+    return candidates;
+  }
+
+  [1, -1].forEach((shoulder) => {
+    const reach = Math.acos(Math.max(-1, Math.min(1, link4.d / radius)));
+    const theta1 = Math.atan2(wristY, wristX) + shoulder * reach + Math.PI / 2;
+    const s1 = Math.sin(theta1);
+    const c1 = Math.cos(theta1);
+    const cos5 = (t(0, 3) * s1 - t(1, 3) * c1 - link4.d) / link6.d;
+
+    if (Math.abs(cos5) > 1 + SINGULAR_EPSILON) {
+      return;
+    }
+
+    [1, -1].forEach((wrist) => {
+      const theta5 = wrist * Math.acos(Math.max(-1, Math.min(1, cos5)));
+      const s5 = Math.sin(theta5);
+      // Near a straight joint 5, θ6 = atan2(…/sin θ5) is mostly rounding noise: keep
+      // joint 6 at the seed and let joints 2-4 take up the rotation instead
+      const theta6 = Math.abs(s5) < WRIST_SINGULAR_EPSILON
+        ? (seed[5] ?? 0) * DEG_TO_RAD + link6.offset
+        : Math.atan2((-n(1, 0) * s1 + n(1, 1) * c1) / s5, (n(0, 0) * s1 - n(0, 1) * c1) / s5);
+
+      candidates.push(...solvePlanarArm(flange, dh, { theta1, theta5, theta6 }));
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * Check that two transforms describe the same pose
+ * @param actual - Computed transform
+ * @param expected - Requested transform
+ * @param slack - Extra position (millimetres) and rotation error to accept
+ * @returns True if they agree
+ */
+function samePose(
+  actual: TMatrix4,
+  expected: TMatrix4,
+  slack = { position: 0, rotation: 0 },
+): boolean {
+  return [0, 1, 2].every((row) => [0, 1, 2, 3].every((column) => (
+    Math.abs((actual[row]?.[column] ?? 0) - (expected[row]?.[column] ?? 0)) <= (column === 3
+      ? POSITION_EPSILON + slack.position
+      : ROTATION_EPSILON + slack.rotation)
+  )));
+}
+
+/**
+ * Pick, per joint, the turn-equivalent angle within the limits that is nearest to the seed
+ * @param angles - Joint angles in degrees
+ * @param seed - Seed angles in degrees
+ * @param limits - Joint limits in degrees
+ * @returns Fitted angles, or null if a joint cannot be placed within its limits
+ */
+function fitToLimits(
+  angles: readonly number[],
+  seed: TJointAngles,
+  limits: readonly IJointLimits[],
+): TJointAngles | null {
+  const fitted: number[] = [];
+
+  for (let i = 0; i < 6; i += 1) {
+    const angle = angles[i] ?? 0;
+    const limit = limits[i] ?? { min: -Infinity, max: Infinity };
+    const turns = [angle - 360, angle, angle + 360]
+      .filter((turn) => turn >= limit.min && turn <= limit.max);
+
+    if (turns.length === 0) {
+      return null;
+    }
+
+    turns.sort((a, b) => Math.abs(a - (seed[i] ?? 0)) - Math.abs(b - (seed[i] ?? 0)));
+    fitted.push(turns[0] ?? angle);
+  }
+
+  return fitted as unknown as TJointAngles;
+}
+
+/**
+ * Euclidean distance between two sets of joint angles
+ * @param a - Joint angles in degrees
+ * @param b - Joint angles in degrees
+ * @returns Distance in degrees
+ */
+function jointDistance(a: TJointAngles, b: TJointAngles): number {
+  return Math.hypot(...a.map((angle, i) => angle - (b[i] ?? 0)));
+}
+
+/**
+ * Largest single-joint change between two sets of joint angles
+ * @param a - Joint angles in degrees
+ * @param b - Joint angles in degrees
+ * @returns Change in degrees
+ */
+function largestJointChange(a: TJointAngles, b: TJointAngles): number {
+  return Math.max(...a.map((angle, i) => Math.abs(angle - (b[i] ?? 0))));
+}
+
+/**
+ * Unit quaternion [w, x, y, z] of the rotation part of a transform
+ * @param matrix - Transform
+ * @returns Quaternion
+ */
+function matrixToQuaternion(matrix: TMatrix4): number[] {
+  const r = (row: number, column: number): number => matrix[row]?.[column] ?? 0;
+  const trace = r(0, 0) + r(1, 1) + r(2, 2);
+
+  // Branch on the largest diagonal term to keep the square root well away from zero
+  if (trace > 0) {
+    const s = 2 * Math.sqrt(1 + trace);
+
+    return [s / 4, (r(2, 1) - r(1, 2)) / s, (r(0, 2) - r(2, 0)) / s, (r(1, 0) - r(0, 1)) / s];
+  }
+  if (r(0, 0) > r(1, 1) && r(0, 0) > r(2, 2)) {
+    const s = 2 * Math.sqrt(1 + r(0, 0) - r(1, 1) - r(2, 2));
+
+    return [(r(2, 1) - r(1, 2)) / s, s / 4, (r(0, 1) + r(1, 0)) / s, (r(0, 2) + r(2, 0)) / s];
+  }
+  if (r(1, 1) > r(2, 2)) {
+    const s = 2 * Math.sqrt(1 + r(1, 1) - r(0, 0) - r(2, 2));
+
+    return [(r(0, 2) - r(2, 0)) / s, (r(0, 1) + r(1, 0)) / s, s / 4, (r(1, 2) + r(2, 1)) / s];
+  }
+
+  const s = 2 * Math.sqrt(1 + r(2, 2) - r(0, 0) - r(1, 1));
+
+  return [(r(1, 0) - r(0, 1)) / s, (r(0, 2) + r(2, 0)) / s, (r(1, 2) + r(2, 1)) / s, s / 4];
+}
+
+/**
+ * Transform with the rotation of a quaternion and the given translation
+ * @param quaternion - Unit quaternion [w, x, y, z]
+ * @param position - Translation [x, y, z]
+ * @returns Transform
+ */
+function quaternionToMatrix(quaternion: readonly number[], position: readonly number[]): TMatrix4 {
+  const [w = 1, x = 0, y = 0, z = 0] = quaternion;
+
+  return [
+    [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y), position[0] ?? 0],
+    [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x), position[1] ?? 0],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y), position[2] ?? 0],
+    [0, 0, 0, 1],
+  ];
+}
+
+/**
+ * Spherical linear interpolation along the shorter arc
+ * @param from - Unit quaternion at fraction 0
+ * @param to - Unit quaternion at fraction 1
+ * @param fraction - Position along the arc, 0-1
+ * @returns Interpolated unit quaternion
+ */
+function slerp(from: readonly number[], to: readonly number[], fraction: number): number[] {
+  const dot = from.reduce((sum, value, i) => sum + value * (to[i] ?? 0), 0);
+  // q and -q are the same rotation; flipping one takes the shorter way round
+  const target = dot < 0 ? to.map((value) => -value) : [...to];
+  const cosine = Math.min(1, Math.abs(dot));
+  const angle = Math.acos(cosine);
+
+  if (angle < SINGULAR_EPSILON) {
+    return [...from];
+  }
+
+  const fromWeight = Math.sin((1 - fraction) * angle) / Math.sin(angle);
+  const toWeight = Math.sin(fraction * angle) / Math.sin(angle);
+
+  return from.map((value, i) => fromWeight * value + toWeight * (target[i] ?? 0));
+}
+
+/**
+ * Rotation between two orientations
+ * @param from - Unit quaternion
+ * @param to - Unit quaternion
+ * @returns Angle in degrees, 0-180
+ */
+function rotationAngle(from: readonly number[], to: readonly number[]): number {
+  const dot = from.reduce((sum, value, i) => sum + value * (to[i] ?? 0), 0);
+
+  return 2 * Math.acos(Math.min(1, Math.abs(dot))) * RAD_TO_DEG;
+}
+
+/**
+ * Compute the end-effector pose for a set of joint angles
+ * @param angles - Joint angles in degrees
+ * @param options - Tool offset and arm geometry
+ * @returns Pose as [x, y, z, rx, ry, rz], like getCoords()
+ */
+export function forwardKinematics(
+  angles: TJointAngles,
+  options: IKinematicsOptions = {},
+): TCartesianCoords {
+  return matrixToPose(forwardTransform(angles, options));
+}
+
+/**
+ * Compute every set of joint angles that places the tool at a pose
+ * Solutions that differ only by full turns of a joint are reported once,
+ * using the turn nearest to the seed
+ * @param coords - Target pose as [x, y, z, rx, ry, rz], like sendCoords()
+ * @param seedAngles - Angles to rank solutions against, usually the current angles
+ * (default: all zeros)
+ * @param options - Tool offset, arm geometry and joint limits
+ * @returns Solutions nearest to the seed first, or an unreachable result with its reason
+ */
+export function inverseKinematics(
+  coords: TCartesianCoords,
+  seedAngles: TJointAngles = [0, 0, 0, 0, 0, 0],
+  options: IInverseKinematicsOptions = {},
+): TInverseKinematicsResult {
+  const { tool, dh = MYCOBOT_280_DH, jointLimits = MYCOBOT_280_JOINT_LIMITS } = options;
+
+  if (coords.length !== 6 || coords.some((value) => !Number.isFinite(value))) {
+    throw new Error('Coordinates must be an array of exactly 6 finite numbers');
+  }
+  if (seedAngles.length !== 6 || seedAngles.some((angle) => !Number.isFinite(angle))) {
+    throw new Error('Seed angles must be an array of exactly 6 finite numbers');
+  }
+  if (dh.length !== 6) {
+    throw new Error('DH parameters must describe exactly 6 joints');
+  }
+
+  const target = poseToMatrix(coords);
+  const flange = tool ? multiply(target, invert(poseToMatrix(tool))) : target;
+  // With joint 6 pinned to the seed, the orientation is off by less than 2 |sin θ5|
+  // and the flange position by d6 times that
+  const wristSlack = {
+    position: Math.abs(dh[5]?.d ?? 0) * 2 * WRIST_SINGULAR_EPSILON,
+    rotation: 2 * WRIST_SINGULAR_EPSILON,
+  };
+  const exact = solveFlange(flange, dh, seedAngles).filter((angles) => {
+    const theta5 = (angles[4] ?? 0) * DEG_TO_RAD + (dh[4]?.offset ?? 0);
+    const slack = Math.abs(Math.sin(theta5)) < WRIST_SINGULAR_EPSILON ? wristSlack : undefined;
+
+    return samePose(forwardTransform(angles as unknown as TJointAngles, { dh }), flange, slack);
+  });
+
+  if (exact.length === 0) {
+    return { reachable: false, reason: 'out-of-reach', solutions: [] };
+  }
+
+  const solutions: TJointAngles[] = [];
+
+  exact.forEach((angles) => {
+    const fitted = fitToLimits(angles, seedAngles, jointLimits);
+    const isNew = (solution: TJointAngles): boolean => (
+      fitted !== null && jointDistance(solution, fitted) >= DUPLICATE_EPSILON
+    );
+
+    if (fitted && solutions.every(isNew)) {
+      solutions.push(fitted);
+    }
+  });
+
+  if (solutions.length === 0) {
+    return { reachable: false, reason: 'joint-limits', solutions: [] };
+  }
+
+  solutions.sort((a, b) => jointDistance(a, seedAngles) - jointDistance(b, seedAngles));
+
+  return { reachable: true, solutions };
+}
+
+/**
+ * Check whether joint angles are near a singularity, where small tool motions
+ * need large joint motions
+ * @param angles - Joint angles in degrees
+ * @param options - Arm geometry and margin
+ * @returns The singularity, or null if the arm is clear of all of them
+ */
+export function findSingularity(
+  angles: TJointAngles,
+  options: ISingularityOptions = {},
+): TSingularity | null {
+  const { dh = MYCOBOT_280_DH, margin = 5 } = options;
+  const threshold = Math.sin(margin * DEG_TO_RAD);
+  const flange = forwardTransform(angles, { dh });
+  const t = (row: number, column: number): number => flange[row]?.[column] ?? 0;
+  const wristOffset = dh[5]?.d ?? 0;
+  const radius = Math.hypot(t(0, 3) - wristOffset * t(0, 2), t(1, 3) - wristOffset * t(1, 2));
+  const offset = Math.abs(dh[3]?.d ?? 0);
+
+  if (Math.sqrt(Math.max(0, radius * radius - offset * offset)) < SHOULDER_SINGULARITY_DISTANCE) {
+    return 'shoulder';
+  }
+  if (Math.abs(Math.sin((angles[2] ?? 0) * DEG_TO_RAD + (dh[2]?.offset ?? 0))) < threshold) {
+    return 'elbow';
+  }
+  if (Math.abs(Math.sin((angles[4] ?? 0) * DEG_TO_RAD + (dh[4]?.offset ?? 0))) < threshold) {
+    return 'wrist';
+  }
+
+  return null;
+}
+
+/**
+ * Interpolate between two poses: the position moves along a straight line and
+ * the orientation turns about a single axis (slerp)
+ * @param start - Pose at fraction 0, as [x, y, z, rx, ry, rz]
+ * @param end - Pose at fraction 1, as [x, y, z, rx, ry, rz]
+ * @param fraction - Position along the path, 0-1
+ * @returns Interpolated pose
+ */
+export function interpolatePose(
+  start: TCartesianCoords,
+  end: TCartesianCoords,
+  fraction: number,
+): TCartesianCoords {
+  const position = [0, 1, 2].map((i) => (
+    (start[i] ?? 0) + fraction * ((end[i] ?? 0) - (start[i] ?? 0))
+  ));
+  const orientation = slerp(
+    matrixToQuaternion(poseToMatrix(start)),
+    matrixToQuaternion(poseToMatrix(end)),
+    fraction,
+  );
+
+  return matrixToPose(quaternionToMatrix(orientation, position));
+}
+
+/**
+ * Solve a straight-line tool path into joint waypoints
+ * Every step is checked before anything moves: the path is refused if a step is
+ * unreachable, comes near a singularity or needs a joint to jump
+ * @param startAngles - Joint angles at the start, in degrees
+ * @param target - Target pose as [x, y, z, rx, ry, rz], like sendCoords()
+ * @param options - Step sizes, checks, tool offset, arm geometry and joint limits
+ * @returns Joint waypoints with the tool travel and rotation
+ * @throws LinearMoveError if the path cannot be followed
+ */
+export function planLinearPath(
+  startAngles: TJointAngles,
+  target: TCartesianCoords,
+  options: ILinearPathOptions = {},
+): ILinearPath {
+  const {
+    stepMm = 2,
+    stepDegrees = 2,
+    maxJointStep = 10,
+    singularityMargin = 5,
+    ...kinematics
+  } = options;
+
+  if (target.length !== 6 || target.some((value) => !Number.isFinite(value))) {
+    throw new Error('Coordinates must be an array of exactly 6 finite numbers');
+  }
+  if (!(stepMm > 0) || !(stepDegrees > 0) || !(maxJointStep > 0)) {
+    throw new Error('Step sizes and the joint step limit must be positive');
+  }
+
+  const start = forwardTransform(startAngles, kinematics);
+  const startPose = matrixToPose(start);
+  const distance = Math.hypot(
+    target[0] - startPose[0],
+    target[1] - startPose[1],
+    target[2] - startPose[2],
+  );
+  const rotation = rotationAngle(
+    matrixToQuaternion(start),
+    matrixToQuaternion(poseToMatrix(target)),
+  );
+  const steps = Math.max(1, Math.ceil(distance / stepMm), Math.ceil(rotation / stepDegrees));
+  const dh = kinematics.dh ?? MYCOBOT_280_DH;
+  const waypoints: TJointAngles[] = [];
+  let previous = startAngles;
+
+  for (let step = 1; step <= steps; step += 1) {
+    const pose = step === steps ? target : interpolatePose(startPose, target, step / steps);
+    const result = inverseKinematics(pose, previous, kinematics);
+
+    if (!result.reachable) {
+      throw new LinearMoveError(`Step ${step} of ${steps} is unreachable (${result.reason})`, result.reason, step, steps, pose);
+    }
+
+    const next = result.solutions[0] ?? previous;
+    const jump = largestJointChange(next, previous);
+
+    if (jump > maxJointStep) {
+      throw new LinearMoveError(
+        `Step ${step} of ${steps} needs a joint to move ${jump.toFixed(1)}° (limit ${maxJointStep}°)`,
+        'joint-jump',
+        step,
+        steps,
+        pose,
+      );
+    }
+
+    const singularity = findSingularity(next, { dh, margin: singularityMargin });
+
+    if (singularity) {
+      throw new LinearMoveError(`Step ${step} of ${steps} is near a ${singularity} singularity`, 'singularity', step, steps, pose);
+    }
+
+    waypoints.push(next);
+    previous = next;
+  }
+
+  return { waypoints, distance, rotation };
+}
@@ -0,0 +1,34 @@
+/**
+ * Logging abstraction
+ * Any object with pino/winston-style level methods can be injected
+ */
+
+/**
+ * Leveled logger accepted by the controller and recorder
+ */
+export interface ILogger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Logger that discards every message (library default)
+ */
+export const silentLogger: ILogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Logger that writes to the console, dropping debug output
+ */
+export const consoleLogger: ILogger = {
+  debug: () => undefined,
+  info: (message, ...args) => console.log(message, ...args),
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
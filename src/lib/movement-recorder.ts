@@ -1,13 +1,57 @@
 import { performance } from 'perf_hooks';
 import fs from 'fs/promises';
+import {
+  abortableDelay,
+  rethrowIfAborted,
+  throwIfAborted,
+  type IAbortOptions,
+} from './abort.js';
+import { AbortError, LinearMoveError } from './errors.js';
+import {
+  findSingularity,
+  inverseKinematics,
+  planLinearPath,
+  type ILinearPath,
+} from './kinematics.js';
+import { silentLogger, type ILogger } from './logger.js';
 import type { MyCobotController } from './mycobot-controller.js';
-import type { TJointAngles, TCartesianCoords, TMovementSpeed } from './command-ids.js';
+import {
+  MYCOBOT_280_JOINT_LIMITS,
+  type TJointAngles,
+  type TCartesianCoords,
+  type TJointId,
+  type TMovementSpeed,
+} from './command-ids.js';
 
 /**
  * Recording mode type
  */
 export type TRecordingMode = 'angles' | 'coords';
 
+/**
+ * How the arm is made movable by hand while recording:
+ * 'release' switches off servo torque, 'free' uses the firmware free-move mode
+ */
+export type TTeachMode = 'release' | 'free';
+
+/**
+ * How coords recordings are played back:
+ * 'host' draws a straight line into every frame with planLinearPath() and streams the joint
+ * waypoints with sendAngles(), like moveLinear(); 'linear' and 'angular' send each frame
+ * with sendCoords() in that firmware interpolation mode
+ */
+export type TCoordsPlayback = 'host' | 'linear' | 'angular';
+
+/**
+ * Host-side plan for a coords recording
+ */
+interface ICoordsPlan {
+  /** Joint angles of the first frame, nearest to the pose playback starts from */
+  readonly start: TJointAngles;
+  /** Straight-line leg from each frame to the next, starting with the leg into the second frame */
+  readonly legs: readonly ILinearPath[];
+}
+
 /**
  * Recording position data (can be either joint angles or cartesian coordinates)
  */
@@ -75,18 +119,29 @@ export interface IMovementRecorderOptions {
   readonly sampleRate?: number;
   /** Recording mode: 'angles' or 'coords' (default: 'angles') */
   readonly recordingMode?: TRecordingMode;
+  /** How the arm is made movable while recording (default: 'release') */
+  readonly teachMode?: TTeachMode;
+  /**
+   * Joints released in 'release' teach mode; the others hold their position (default: all).
+   * Not allowed with 'free'
+   */
+  readonly teachJoints?: readonly TJointId[];
+  /** Logger for recording and playback progress (default: silent) */
+  readonly logger?: ILogger;
 }
 
 /**
  * Playback configuration options
  */
-export interface IPlaybackOptions {
+export interface IPlaybackOptions extends IAbortOptions {
   /** Playback speed multiplier (default: 1.0) */
   readonly speed?: number;
   /** Robot movement speed for each frame (default: 100) */
   readonly moveSpeed?: TMovementSpeed;
   /** Whether to loop the playback (default: false) */
   readonly loop?: boolean;
+  /** How coords recordings are sent to the robot (default: 'linear') */
+  readonly coordsPlayback?: TCoordsPlayback;
 }
 
 /**
@@ -132,7 +187,10 @@ export class MovementRecorder {
   private readonly robot: MyCobotController;
   private readonly sampleRate: number;
   private readonly recordingMode: TRecordingMode;
-  
+  private readonly teachMode: TTeachMode;
+  private readonly teachJoints: readonly TJointId[] | null;
+  private readonly logger: ILogger;
+
   private readonly recordingInterval: number; // ms
   private isRecording = false;
   private isPlaying = false;
@@ -144,20 +202,28 @@ export class MovementRecorder {
    * Creates a new MovementRecorder instance
    * @param robot - The robot controller instance
    * @param options - Recording options
+   * @throws Error if teachJoints is given with the 'free' teach mode
    */
   constructor(robot: MyCobotController, options: IMovementRecorderOptions = {}) {
     this.robot = robot;
     this.sampleRate = options.sampleRate ?? 20; // Hz
     this.recordingMode = options.recordingMode ?? 'angles';
-    
+    this.teachMode = options.teachMode ?? 'release';
+    this.teachJoints = options.teachJoints ?? null;
+    if (this.teachMode === 'free' && this.teachJoints !== null) {
+      throw new Error("teachJoints only applies to 'release' teach mode; free-move mode frees every joint");
+    }
+    this.logger = options.logger ?? silentLogger;
+
     this.recordingInterval = 1000 / this.sampleRate; // ms
   }
 
   /**
    * Start recording robot movements
+   * @param options - Abort signal for releasing the servos or entering free mode
    * @returns Promise that resolves when recording starts
    */
-  async startRecording(): Promise<void> {
+  async startRecording(options: IAbortOptions = {}): Promise<void> {
     if (this.isRecording) {
       throw new Error('Recording already in progress');
     }
@@ -165,41 +231,43 @@ export class MovementRecorder {
       throw new Error('Cannot record while playing back a movement');
     }
 
-    console.log(`Starting movement recording in ${this.recordingMode} mode...`);
-    console.log(`Sample rate: ${this.sampleRate} Hz (${this.recordingInterval}ms interval)`);
-    
+    this.logger.info(`Starting movement recording in ${this.recordingMode} mode...`);
+    this.logger.info(`Sample rate: ${this.sampleRate} Hz (${this.recordingInterval}ms interval)`);
+
     this.currentRecording = [];
-    
-    await this.robot.releaseAllServos();
-    
+
+    await this._enterTeachMode(options);
+
     this.isRecording = true;
     this.recordingStartTime = performance.now();
-    
+
     this._startRecordingLoop();
-    
-    console.log('Recording started. Move the robot manually to teach the movement.');
-    console.log('Call stopRecording() when finished.');
+
+    this.logger.info('Recording started. Move the robot manually to teach the movement.');
+    this.logger.info('Call stopRecording() when finished.');
   }
 
   /**
    * Stop recording robot movements
+   * Sampling stops even if the signal aborts while the servos are powered back on
+   * @param options - Abort signal for powering the servos back on or leaving free mode
    * @returns Promise that resolves with recording metadata
    */
-  async stopRecording(): Promise<IRecordingResult> {
+  async stopRecording(options: IAbortOptions = {}): Promise<IRecordingResult> {
     if (!this.isRecording) {
       throw new Error('No recording in progress');
     }
 
     this._stopRecordingLoop();
     this.isRecording = false;
-    
+
     const recordingDuration = performance.now() - this.recordingStartTime;
     const frameCount = this.currentRecording.length;
-    
-    console.log(`Recording stopped. Captured ${frameCount} frames in ${(recordingDuration / 1000).toFixed(2)}s`);
-    
-    await this.robot.powerOn();
-    
+
+    this.logger.info(`Recording stopped. Captured ${frameCount} frames in ${(recordingDuration / 1000).toFixed(2)}s`);
+
+    await this._leaveTeachMode(options);
+
     return {
       duration: recordingDuration,
       frameCount,
@@ -209,6 +277,40 @@ export class MovementRecorder {
     };
   }
 
+  /**
+   * Make the arm movable by hand according to the teach mode
+   * @param options - Abort signal
+   */
+  private async _enterTeachMode(options: IAbortOptions): Promise<void> {
+    if (this.teachMode === 'free') {
+      await this.robot.setFreeMode(true, options);
+
+      return;
+    }
+
+    if (this.teachJoints === null) {
+      await this.robot.releaseAllServos(options);
+
+      return;
+    }
+
+    for (const jointId of this.teachJoints) {
+      await this.robot.releaseServo(jointId, options);
+    }
+    this.logger.info(`Released joints ${this.teachJoints.join(', ')}; the others hold their position`);
+  }
+
+  /**
+   * Lock the arm again after teaching
+   * @param options - Abort signal
+   */
+  private async _leaveTeachMode(options: IAbortOptions): Promise<void> {
+    if (this.teachMode === 'free') {
+      await this.robot.setFreeMode(false, options);
+    }
+    await this.robot.powerOn(options);
+  }
+
   /**
    * Start the recording loop
    */
@@ -227,7 +329,7 @@ export class MovementRecorder {
         } else if (this.recordingMode === 'coords') {
           position = await this.robot.getCoords();
         } else {
-          throw new Error(`Invalid recording mode: ${this.recordingMode}`);
+          throw new Error(`Invalid recording mode: ${String(this.recordingMode)}`);
         }
 
         const frame: IMovementFrame = {
@@ -242,8 +344,8 @@ export class MovementRecorder {
           void recordFrame();
         }, this.recordingInterval);
       } catch (error) {
-        console.error('Error during recording frame capture:', (error as Error).message);
-        
+        this.logger.warn(`Error during recording frame capture: ${(error as Error).message}`);
+
         this.recordingTimer = setTimeout(() => {
           void recordFrame();
         }, this.recordingInterval);
@@ -267,9 +369,14 @@ export class MovementRecorder {
    * Save the current recording to a file
    * @param filename - The filename to save to
    * @param metadata - Additional metadata to include
+   * @param options - Abort signal for the file write
    * @returns Promise that resolves when file is saved
    */
-  async saveRecording(filename: string, metadata: Record<string, unknown> = {}): Promise<void> {
+  async saveRecording(
+    filename: string,
+    metadata: Record<string, unknown> = {},
+    options: IAbortOptions = {},
+  ): Promise<void> {
     if (this.currentRecording.length === 0) {
       throw new Error('No recording to save. Record a movement first.');
     }
@@ -287,10 +394,11 @@ export class MovementRecorder {
     };
 
     try {
-      await fs.writeFile(filename, JSON.stringify(recordingData, null, 2), 'utf8');
-      console.log(`Recording saved to ${filename}`);
-      console.log(`Frames: ${recordingData.frames.length}, Duration: ${(recordingData.metadata.duration / 1000).toFixed(2)}s`);
+      await fs.writeFile(filename, JSON.stringify(recordingData, null, 2), { encoding: 'utf8', signal: options.signal });
+      this.logger.info(`Recording saved to ${filename}`);
+      this.logger.info(`Frames: ${recordingData.frames.length}, Duration: ${(recordingData.metadata.duration / 1000).toFixed(2)}s`);
     } catch (error) {
+      rethrowIfAborted(error, options.signal);
       throw new Error(`Failed to save recording: ${(error as Error).message}`);
     }
   }
@@ -298,14 +406,15 @@ export class MovementRecorder {
   /**
    * Load a recording from a file
    * @param filename - The filename to load from
+   * @param options - Abort signal for the file read
    * @returns Promise that resolves with recording data
    */
-  async loadRecording(filename: string): Promise<IRecordingData> {
+  async loadRecording(filename: string, options: IAbortOptions = {}): Promise<IRecordingData> {
     try {
-      const fileContent = await fs.readFile(filename, 'utf8');
+      const fileContent = await fs.readFile(filename, { encoding: 'utf8', signal: options.signal });
       const recordingData = JSON.parse(fileContent) as IRecordingData;
 
-      if (!recordingData.frames || !Array.isArray(recordingData.frames)) {
+      if (!Array.isArray(recordingData.frames as unknown)) {
         throw new Error('Invalid recording file format: missing frames array');
       }
 
@@ -315,16 +424,17 @@ export class MovementRecorder {
 
       // Validate frame structure
       const firstFrame = recordingData.frames[0];
-      
+
       if (typeof firstFrame?.timestamp !== 'number' || !Array.isArray(firstFrame.position)) {
         throw new Error('Invalid recording file format: invalid frame structure');
       }
 
-      console.log(`Loaded recording from ${filename}`);
-      console.log(`Frames: ${recordingData.frames.length}, Mode: ${recordingData.metadata?.recordingMode ?? 'unknown'}`);
-      
+      this.logger.info(`Loaded recording from ${filename}`);
+      this.logger.info(`Frames: ${recordingData.frames.length}, Mode: ${recordingData.metadata?.recordingMode ?? 'unknown'}`);
+
       return recordingData;
     } catch (error) {
+      rethrowIfAborted(error, options.signal);
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         throw new Error(`Recording file not found: ${filename}`);
       }
@@ -335,10 +445,14 @@ export class MovementRecorder {
   /**
    * Play back a recorded movement
    * @param recording - Filename string or recording data object
-   * @param options - Playback options
+   * @param options - Playback options; aborting the signal stops playback and rejects
+   * with AbortError
    * @returns Promise that resolves when playback completes
    */
-  async playRecording(recording: string | IRecordingData, options: IPlaybackOptions = {}): Promise<void> {
+  async playRecording(
+    recording: string | IRecordingData,
+    options: IPlaybackOptions = {},
+  ): Promise<void> {
     if (this.isRecording) {
       throw new Error('Cannot play while recording');
     }
@@ -350,42 +464,123 @@ export class MovementRecorder {
       speed = 1.0,
       moveSpeed = 100,
       loop = false,
+      coordsPlayback = 'linear',
+      signal,
     } = options;
 
     // Load recording if filename provided
     let recordingData: IRecordingData;
-    
+
     if (typeof recording === 'string') {
-      recordingData = await this.loadRecording(recording);
+      recordingData = await this.loadRecording(recording, { signal });
     } else if (typeof recording === 'object' && recording.frames) {
       recordingData = recording;
     } else {
       throw new Error('Invalid recording parameter: must be filename or recording data object');
     }
 
-    console.log('Starting playback...');
-    console.log(`Speed: ${speed}x, Move Speed: ${moveSpeed}, Loop: ${loop}`);
-    
-    // Power on servos for movement
-    await this.robot.powerOn();
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    this.logger.info('Starting playback...');
+    this.logger.info(`Speed: ${speed}x, Move Speed: ${moveSpeed}, Loop: ${loop}`);
 
+    // Plan every leg up front so an unreachable one fails before anything moves
+    const plan = recordingData.metadata.recordingMode === 'coords' && coordsPlayback === 'host'
+      ? await this._planCoordsPlayback(recordingData, signal)
+      : null;
+
+    // Power on servos for movement
     this.isPlaying = true;
 
     try {
+      await this.robot.powerOn({ signal });
+      await abortableDelay(1000, signal);
+
       do {
-        await this._playRecordingOnce(recordingData, speed, moveSpeed);
-        
+        await this._playRecordingOnce(
+          recordingData,
+          speed,
+          moveSpeed,
+          coordsPlayback,
+          plan,
+          signal,
+        );
+
         if (loop && this.isPlaying) {
-          console.log('Looping playback...');
-          await new Promise((resolve) => setTimeout(resolve, 500));
+          this.logger.debug('Looping playback...');
+          await abortableDelay(500, signal);
         }
       } while (loop && this.isPlaying);
     } finally {
       this.isPlaying = false;
     }
 
-    console.log('Playback completed.');
+    this.logger.info('Playback completed.');
+  }
+
+  /**
+   * Plan a coords recording on the host: the first frame is solved from the current
+   * angles, then every frame is reached along a straight line with the same checks
+   * as moveLinear()
+   * @param recordingData - Coords recording
+   * @param signal - Optional abort signal
+   * @returns The plan, or null if there are no frames
+   * @throws LinearMoveError naming the first frame that cannot be reached
+   */
+  private async _planCoordsPlayback(
+    recordingData: IRecordingData,
+    signal?: AbortSignal,
+  ): Promise<ICoordsPlan | null> {
+    const jointLimits = MYCOBOT_280_JOINT_LIMITS.map((limit, i) => ({
+      ...limit,
+      ...this.robot.jointLimits[i],
+    }));
+    const targets = recordingData.frames.map((frame) => frame.position as TCartesianCoords);
+    const [first] = targets;
+
+    if (!first) {
+      return null;
+    }
+
+    const current = await this.robot.getAngles({ signal });
+    const result = inverseKinematics(first, current, { jointLimits });
+
+    if (!result.reachable) {
+      throw new LinearMoveError(`Frame 0 cannot be reached (${result.reason})`, result.reason, 1, 1, first);
+    }
+
+    const start = result.solutions[0] as TJointAngles;
+    const singularity = findSingularity(start);
+
+    if (singularity) {
+      throw new LinearMoveError(`Frame 0 is near a ${singularity} singularity`, 'singularity', 1, 1, first);
+    }
+
+    const legs: ILinearPath[] = [];
+    let previous = start;
+
+    for (let i = 1; i < targets.length; i += 1) {
+      let leg: ILinearPath;
+
+      try {
+        leg = planLinearPath(previous, targets[i] as TCartesianCoords, { jointLimits });
+      } catch (error) {
+        if (error instanceof LinearMoveError) {
+          const {
+            reason,
+            step,
+            steps,
+            pose,
+          } = error;
+
+          throw new LinearMoveError(`Frame ${i}: ${error.message}`, reason, step, steps, pose);
+        }
+        throw error;
+      }
+
+      legs.push(leg);
+      previous = leg.waypoints[leg.waypoints.length - 1] ?? previous;
+    }
+
+    return { start, legs };
   }
 
   /**
@@ -393,8 +588,18 @@ export class MovementRecorder {
    * @param recordingData - Recording data
    * @param speed - Playback speed multiplier
    * @param moveSpeed - Robot movement speed
+   * @param coordsPlayback - How coords frames are sent
+   * @param plan - Host-side plan, for 'host' coords playback
+   * @param signal - Optional abort signal
    */
-  private async _playRecordingOnce(recordingData: IRecordingData, speed: number, moveSpeed: TMovementSpeed): Promise<void> {
+  private async _playRecordingOnce(
+    recordingData: IRecordingData,
+    speed: number,
+    moveSpeed: TMovementSpeed,
+    coordsPlayback: TCoordsPlayback,
+    plan: ICoordsPlan | null,
+    signal?: AbortSignal,
+  ): Promise<void> {
     const { frames } = recordingData;
     const { recordingMode } = recordingData.metadata;
 
@@ -405,56 +610,116 @@ export class MovementRecorder {
         continue;
       }
 
+      throwIfAborted(signal);
+
       try {
         // Send movement command
-        if (recordingMode === 'angles') {
-          await this.robot.sendAngles(frame.position as TJointAngles, moveSpeed);
+        if (recordingMode === 'coords' && plan) {
+          await this._playPlannedFrame(plan, frames, i, speed, moveSpeed, signal);
+        } else if (recordingMode === 'angles') {
+          await this.robot.sendAngles(frame.position as TJointAngles, moveSpeed, { signal });
         } else if (recordingMode === 'coords') {
-          await this.robot.sendCoords(frame.position as TCartesianCoords, moveSpeed, 1); // Linear interpolation for coords
+          const mode = coordsPlayback === 'angular' ? 0 : 1;
+
+          await this.robot.sendCoords(
+            frame.position as TCartesianCoords,
+            moveSpeed,
+            mode,
+            { signal },
+          );
         } else {
-          console.warn(`Unknown recording mode: ${recordingMode}, treating as angles`);
-          await this.robot.sendAngles(frame.position as TJointAngles, moveSpeed);
+          this.logger.warn(`Unknown recording mode: ${String(recordingMode)}, treating as angles`);
+          await this.robot.sendAngles(frame.position as TJointAngles, moveSpeed, { signal });
         }
 
-        // Calculate delay to next frame
-        if (i < frames.length - 1) {
+        // Calculate delay to next frame (a host-side leg already takes that time)
+        if (!plan && i < frames.length - 1) {
           const currentFrame = frames[i];
           const nextFrame = frames[i + 1];
-          
+
           if (currentFrame && nextFrame) {
             const originalDelay = nextFrame.timestamp - currentFrame.timestamp;
             const adjustedDelay = originalDelay / speed;
 
             if (adjustedDelay > 0) {
-              await new Promise((resolve) => setTimeout(resolve, adjustedDelay));
+              await abortableDelay(adjustedDelay, signal);
             }
           }
         }
       } catch (error) {
-        console.error(`Error playing frame ${i}:`, (error as Error).message);
-        
+        if (error instanceof AbortError) {
+          throw error;
+        }
+
+        this.logger.error(`Error playing frame ${i}: ${(error as Error).message}`);
+
         // Continue playback despite errors
-        await new Promise((resolve) => setTimeout(resolve, 50));
+        await abortableDelay(50, signal);
+      }
+    }
+  }
+
+  /**
+   * Move to a frame of a host-side plan: the first frame with a joint move that waits
+   * for the arm, every later one by streaming its leg's waypoints at an even pace over
+   * the recorded time since the frame before, as moveLinear() does
+   * @param plan - Host-side plan
+   * @param frames - Recorded frames
+   * @param index - Frame to move to
+   * @param speed - Playback speed multiplier
+   * @param moveSpeed - Robot movement speed
+   * @param signal - Optional abort signal
+   */
+  private async _playPlannedFrame(
+    plan: ICoordsPlan,
+    frames: readonly IMovementFrame[],
+    index: number,
+    speed: number,
+    moveSpeed: TMovementSpeed,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const leg = plan.legs[index - 1];
+
+    if (!leg) {
+      await this.robot.sendAnglesAndWait(plan.start, moveSpeed, { signal });
+
+      return;
+    }
+
+    const elapsed = (frames[index]?.timestamp ?? 0) - (frames[index - 1]?.timestamp ?? 0);
+    const duration = elapsed / speed;
+    const interval = duration / leg.waypoints.length;
+    const startTime = performance.now();
+
+    for (const [step, waypoint] of leg.waypoints.entries()) {
+      if (!this.isPlaying) {
+        return;
       }
+
+      await abortableDelay(Math.max(0, startTime + step * interval - performance.now()), signal);
+      await this.robot.sendAngles(waypoint, moveSpeed, { signal });
     }
+
+    await abortableDelay(Math.max(0, startTime + duration - performance.now()), signal);
   }
 
   /**
    * Stop current playback
+   * @param options - Abort signal for the wait
    * @returns Promise that resolves when playback stops
    */
-  async stopPlayback(): Promise<void> {
+  async stopPlayback(options: IAbortOptions = {}): Promise<void> {
     if (!this.isPlaying) {
-      console.log('No playback in progress');
-      
+      this.logger.debug('No playback in progress');
+
       return;
     }
 
-    console.log('Stopping playback...');
+    this.logger.info('Stopping playback...');
     this.isPlaying = false;
-    
+
     // Wait a moment for the playback loop to recognize the stop signal
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    await abortableDelay(100, options.signal);
   }
 
   /**
@@ -468,8 +733,8 @@ export class MovementRecorder {
       sampleRate: this.sampleRate,
       recordingMode: this.recordingMode,
       currentFrameCount: this.currentRecording.length,
-      recordingDuration: this.isRecording 
-        ? performance.now() - this.recordingStartTime 
+      recordingDuration: this.isRecording
+        ? performance.now() - this.recordingStartTime
         : 0,
     };
   }
@@ -489,26 +754,31 @@ export class MovementRecorder {
     if (this.isRecording) {
       throw new Error('Cannot clear recording while recording is in progress');
     }
-    
+
     this.currentRecording = [];
-    console.log('Current recording cleared');
+    this.logger.info('Current recording cleared');
   }
 
   /**
    * List available recording files in a directory
    * @param directory - Directory to search (default: current directory)
+   * @param options - Abort signal for the directory scan
    * @returns Promise that resolves with array of recording file info
    */
-  async listRecordings(directory = '.'): Promise<IRecordingFileInfo[]> {
+  async listRecordings(directory = '.', options: IAbortOptions = {}): Promise<IRecordingFileInfo[]> {
     try {
+      throwIfAborted(options.signal);
       const files = await fs.readdir(directory);
       const recordings: IRecordingFileInfo[] = [];
 
+      // readdir() takes no signal, so check again once it has finished
+      throwIfAborted(options.signal);
       for (const file of files) {
         if (file.endsWith('.json')) {
           try {
-            const recordingData = await this.loadRecording(`${directory}/${file}`);
-            
+            throwIfAborted(options.signal);
+            const recordingData = await this.loadRecording(`${directory}/${file}`, options);
+
             recordings.push({
               filename: file,
               path: `${directory}/${file}`,
@@ -516,18 +786,21 @@ export class MovementRecorder {
               frameCount: recordingData.frames.length,
             });
           } catch (error) {
+            if (error instanceof AbortError) {
+              throw error;
+            }
             // Skip files that aren't valid recordings
-            console.warn(`Skipping ${file}: not a valid recording file`);
+            this.logger.warn(`Skipping ${file}: not a valid recording file`);
           }
         }
       }
 
       return recordings.sort((a, b) => a.filename.localeCompare(b.filename));
     } catch (error) {
+      rethrowIfAborted(error, options.signal);
       throw new Error(`Failed to list recordings: ${(error as Error).message}`);
     }
   }
 }
 
 export default MovementRecorder;
-
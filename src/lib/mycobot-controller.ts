@@ -1,34 +1,174 @@
-import { SerialPort } from 'serialport';
-import { 
-  COMMAND_IDS, 
-  PROTOCOL, 
-  type TCommandId, 
-  type TJointAngles, 
-  type TCartesianCoords, 
-  type TGripperState, 
-  type TMovementSpeed, 
-  type TJointId, 
-  type TCoordinateId, 
-  type TInterpolationMode 
+import { EventEmitter } from 'events';
+import { performance } from 'perf_hooks';
+import {
+  COMMAND_IDS,
+  COORD_SCALES,
+  MYCOBOT_280_JOINT_LIMITS,
+  type IJointLimits,
+  type TCommandId,
+  type TCommandName,
+  type TJointAngles,
+  type TCartesianCoords,
+  type TGripperState,
+  type TMovementSpeed,
+  type TJointId,
+  type TCoordinateId,
+  type TInterpolationMode,
+  type TJogDirection,
+  type TPinMode,
+  type TPinSignal,
 } from './command-ids.js';
+import { abortableDelay, throwIfAborted, type IAbortOptions } from './abort.js';
+import { ENCODER_RESOLUTION } from './encoders.js';
+import {
+  AbortError,
+  CommandTimeoutError,
+  ConnectionLostError,
+  MotionTimeoutError,
+} from './errors.js';
+import { silentLogger, type ILogger } from './logger.js';
+import { planLinearPath, type ILinearPathOptions } from './kinematics.js';
+import { FrameParser, encodeFrame, type IFrame } from './protocol-codec.js';
+import { RetryPolicy, type IRetryOptions } from './retry-policy.js';
+import { RequestDispatcher, type IRequestInfo } from './request-dispatcher.js';
+import { SerialTransport, isLikelyMyCobotPort, type ISerialPortInfo } from './serial-transport.js';
+import {
+  SERVO_REGISTERS,
+  WIDE_SERVO_REGISTERS,
+  type TServoRegister,
+  type TServoRegisterName,
+} from './servo-registers.js';
+import type { ITransport } from './transport.js';
 
 /**
  * Configuration options for MyCobotController
  */
 export interface IMyCobotControllerOptions {
-  /** Serial communication baud rate (default: 115200) */
+  /** Serial communication baud rate, used when connecting by port path (default: 115200) */
   readonly baudRate?: number;
-  /** Response timeout in milliseconds (default: 2000) */
+  /** Default response timeout in milliseconds (default: 500) */
   readonly timeout?: number;
+  /** Per-command response timeouts in milliseconds, keyed by COMMAND_IDS name */
+  readonly commandTimeouts?: Partial<Record<TCommandName, number>>;
+  /** Logger for connection and protocol diagnostics (default: silent) */
+  readonly logger?: ILogger;
+  /** Send one request at a time, waiting for each response before the next (default: false) */
+  readonly serializeRequests?: boolean;
+  /**
+   * How long a timed-out request still claims its late response, in milliseconds
+   * (default: 1000)
+   */
+  readonly lateResponseWindow?: number;
+  /** Retry idempotent queries that time out (default: disabled) */
+  readonly retry?: boolean | IRetryOptions;
+  /** Automatically reconnect after an unexpected disconnect (default: disabled) */
+  readonly reconnect?: boolean | IReconnectOptions;
+  /** Reject sendAngle()/sendAngles() targets outside the cached joint limits (default: true) */
+  readonly validateJointLimits?: boolean;
+}
+
+/**
+ * Automatic reconnection policy
+ */
+export interface IReconnectOptions {
+  /** Delay before the first attempt in milliseconds (default: 500) */
+  readonly initialDelay?: number;
+  /** Upper bound for the delay between attempts in milliseconds (default: 10000) */
+  readonly maxDelay?: number;
+  /** Backoff multiplier applied after each failed attempt (default: 2) */
+  readonly factor?: number;
+  /** Give up after this many attempts (default: Infinity) */
+  readonly maxAttempts?: number;
+  /** Re-send the last setSpeed() value after reconnecting (default: true) */
+  readonly restoreSpeed?: boolean;
+}
+
+/**
+ * Per-call options accepted by every command
+ */
+export interface ICommandOptions extends IAbortOptions {
+  /** Response timeout in milliseconds, overriding the configured timeouts (queries only) */
+  readonly timeout?: number;
+}
+
+/**
+ * Options for motion commands that wait until the target is reached
+ */
+export interface IMotionWaitOptions extends ICommandOptions {
+  /** Largest deviation per axis that counts as reached, in degrees or millimetres (default: 1) */
+  readonly tolerance?: number;
+  /** Time to wait for the arm to reach the target, in milliseconds (default: 15000) */
+  readonly waitTimeout?: number;
+  /** Interval between position reads, in milliseconds (default: 100) */
+  readonly pollInterval?: number;
+}
+
+/**
+ * Options for host-side straight-line Cartesian moves
+ */
+export interface ILinearMoveOptions extends IMotionWaitOptions, ILinearPathOptions {
+  /** Tool speed along the line in millimetres per second (default: 30) */
+  readonly velocity?: number;
+  /** Tool rotation speed in degrees per second (default: 30) */
+  readonly angularVelocity?: number;
+  /** Robot movement speed used to chase each waypoint (default: 100) */
+  readonly moveSpeed?: TMovementSpeed;
+}
+
+/**
+ * Options for MyCobotController.discover()
+ */
+export interface IDiscoveryOptions extends IAbortOptions {
+  /** Baud rate used to probe each port (default: 115200) */
+  readonly baudRate?: number;
+  /** Response timeout for the version probe in milliseconds (default: 1000) */
+  readonly timeout?: number;
+  /** Select the ports to probe (default: every port, likely myCobot ports first) */
+  readonly filter?: (port: ISerialPortInfo) => boolean;
+  /** Logger for probe diagnostics (default: silent) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * A robot confirmed by MyCobotController.discover()
+ */
+export interface IDiscoveredRobot {
+  /** Serial port path to pass to the MyCobotController constructor */
+  readonly path: string;
+  /** Firmware version reported by the robot */
+  readonly firmwareVersion: number;
+  /** Port metadata reported by the operating system */
+  readonly port: ISerialPortInfo;
 }
 
 /**
- * Response queue item for managing async command-response pairs
+ * Events emitted by MyCobotController
  */
-interface IResponseQueueItem {
-  readonly command: TCommandId;
-  readonly resolve: (result: unknown) => void;
-  readonly reject: (error: Error) => void;
+export interface IMyCobotControllerEvents {
+  /** Connection established and settled, ready for commands */
+  connect: [];
+  /** Connection lost or closed */
+  disconnect: [];
+  /** Transport-level error (only emitted when an 'error' listener is registered) */
+  error: [error: Error];
+  /** A frame was written to the transport */
+  packetSent: [frame: IFrame];
+  /** A complete frame was received from the robot */
+  packetReceived: [frame: IFrame];
+  /** A command did not receive its response in time */
+  timeout: [commandId: TCommandId, timeoutMs: number, requestId: number];
+  /** A timed-out command is about to be sent again */
+  retry: [commandId: TCommandId, attempt: number, maxAttempts: number, error: Error];
+  /** A response arrived after its command had already timed out */
+  lateResponse: [frame: IFrame, request: IRequestInfo];
+  /** A frame was received that no pending command was waiting for */
+  unsolicitedPacket: [frame: IFrame];
+  /** A reconnection attempt has been scheduled */
+  reconnecting: [attempt: number, delayMs: number];
+  /** The connection was re-established */
+  reconnect: [attempt: number];
+  /** Reconnection gave up after the configured number of attempts */
+  reconnectFailed: [error: Error];
 }
 
 /**
@@ -51,6 +191,64 @@ export type TEncoderValue = number;
  */
 export type TEncoderValues = readonly [number, number, number, number, number, number];
 
+/**
+ * Values reported for each of the six servos, indexed by joint (0-5)
+ */
+export type TServoValues = readonly [number, number, number, number, number, number];
+
+/**
+ * Fault flags decoded from a servo status byte
+ */
+export interface IServoErrorFlags {
+  /** Supply voltage out of range */
+  readonly voltage: boolean;
+  /** Position sensor fault */
+  readonly sensor: boolean;
+  /** Temperature above the servo's limit */
+  readonly temperature: boolean;
+  /** Current above the servo's limit */
+  readonly current: boolean;
+  /** Sustained load above the servo's limit */
+  readonly overload: boolean;
+}
+
+/**
+ * Health summary of a single servo
+ */
+export interface IServoDiagnostics {
+  /** Joint the servo drives (1-6) */
+  readonly jointId: TJointId;
+  /** Supply voltage in volts */
+  readonly voltage: number;
+  /** Temperature in degrees Celsius */
+  readonly temperature: number;
+  /** Current draw in milliamps */
+  readonly current: number;
+  /** Raw status byte (0 when healthy) */
+  readonly status: number;
+  /** Faults decoded from the status byte */
+  readonly errors: IServoErrorFlags;
+  /** Temperature fault flagged, or temperature at or above the warning threshold */
+  readonly overheating: boolean;
+}
+
+/**
+ * Options for getServoDiagnostics()
+ */
+export interface IServoDiagnosticsOptions extends ICommandOptions {
+  /** Temperature in degrees Celsius at which a servo is reported as overheating (default: 60) */
+  readonly maxTemperature?: number;
+}
+
+/** Bits of the servo status byte */
+const SERVO_STATUS_BITS = {
+  voltage: 0x01,
+  sensor: 0x02,
+  temperature: 0x04,
+  current: 0x08,
+  overload: 0x20,
+} as const;
+
 /**
  * Raw command data for encoding
  */
@@ -61,186 +259,431 @@ type TCommandData = readonly number[] | null;
  * Provides high-level control interface for the myCobot 280 M5 robotic arm
  * Handles serial communication protocol, data encoding/decoding, and movement control
  */
-export class MyCobotController {
-  private readonly portPath: string;
-  private readonly baudRate: number;
+export class MyCobotController extends EventEmitter<IMyCobotControllerEvents> {
+  private readonly transport: ITransport;
   private readonly timeout: number;
-  
-  private port: SerialPort | null = null;
-  private buffer = Buffer.alloc(0);
-  private readonly responseQueue: IResponseQueueItem[] = [];
+  private readonly commandTimeouts: ReadonlyMap<TCommandId, number>;
+  private readonly logger: ILogger;
+  private readonly reconnectPolicy: Required<IReconnectOptions> | null;
+  private readonly retryPolicy: RetryPolicy | null;
+
+  private readonly parser = new FrameParser();
+  private readonly dispatcher: RequestDispatcher;
   private isConnected = false;
+  private keepAlive = false;
+  private isReconnecting = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private lastSpeed: TMovementSpeed | null = null;
+  private readonly validateJointLimits: boolean;
+  private readonly jointMinAngles: (number | null)[] = new Array<number | null>(6).fill(null);
+  private readonly jointMaxAngles: (number | null)[] = new Array<number | null>(6).fill(null);
 
   /**
    * Creates a new MyCobot controller instance
-   * @param portPath - Serial port path (e.g., '/dev/tty.usbserial-*', 'COM3')
+   * @param target - Serial port path (e.g., '/dev/tty.usbserial-*', 'COM3') or a custom transport
    * @param options - Configuration options
    */
-  constructor(portPath: string, options: IMyCobotControllerOptions = {}) {
-    this.portPath = portPath;
-    this.baudRate = options.baudRate ?? 115200;
+  constructor(target: string | ITransport, options: IMyCobotControllerOptions = {}) {
+    super();
     this.timeout = options.timeout ?? 500;
-    
-    this._initializePort();
+    this.commandTimeouts = this._resolveCommandTimeouts(options.commandTimeouts ?? {});
+    this.logger = options.logger ?? silentLogger;
+    this.validateJointLimits = options.validateJointLimits ?? true;
+    this.reconnectPolicy = this._resolveReconnectPolicy(options.reconnect);
+    this.retryPolicy = options.retry === undefined || options.retry === false
+      ? null
+      : new RetryPolicy(options.retry === true ? {} : options.retry);
+    this.dispatcher = new RequestDispatcher({
+      serialize: options.serializeRequests ?? false,
+      lateResponseWindow: options.lateResponseWindow ?? 1000,
+    });
+    this.transport = typeof target === 'string'
+      ? new SerialTransport({ path: target, baudRate: options.baudRate ?? 115200 })
+      : target;
+
+    this._initializeTransport();
   }
 
   /**
-   * Initialize the serial port connection
+   * Find robots attached to this machine
+   * Opens each candidate serial port in turn and keeps those that answer a
+   * firmware version query. Ports that are busy or do not answer are skipped
+   * @param options - Discovery options
+   * @returns Promise that resolves with the confirmed robots, in probe order
    */
-  private _initializePort(): void {
-    this.port = new SerialPort({
-      path: this.portPath,
-      baudRate: this.baudRate,
-      autoOpen: false,
-      rtscts: false,
-    });
+  static async discover(options: IDiscoveryOptions = {}): Promise<IDiscoveredRobot[]> {
+    const logger = options.logger ?? silentLogger;
+    const ports = await SerialTransport.list();
+    const candidates = ports
+      .filter(options.filter ?? ((): boolean => true))
+      .sort((a, b) => Number(isLikelyMyCobotPort(b)) - Number(isLikelyMyCobotPort(a)));
+    const robots: IDiscoveredRobot[] = [];
+
+    for (const port of candidates) {
+      throwIfAborted(options.signal);
+      logger.debug(`Probing ${port.path}...`);
+
+      const firmwareVersion = await this._probe(port.path, options, logger);
+
+      if (firmwareVersion !== null) {
+        logger.info(`Found myCobot on ${port.path} (firmware ${firmwareVersion})`);
+        robots.push({ path: port.path, firmwareVersion, port });
+      }
+    }
 
-    this.port.on('data', (data: Buffer) => {
-      this.buffer = Buffer.concat([this.buffer, data]);
-      this._parseResponses();
-    });
+    return robots;
+  }
 
-    this.port.on('open', () => {
-      this.isConnected = true;
-      console.log(`Connected to myCobot on ${this.portPath} at ${this.baudRate} bps`);
+  /**
+   * Open a port and ask for the firmware version
+   * @param path - Serial port path
+   * @param options - Discovery options
+   * @param logger - Logger for probe failures
+   * @returns Promise that resolves with the firmware version, or null if no robot answered
+   */
+  private static async _probe(
+    path: string,
+    options: IDiscoveryOptions,
+    logger: ILogger,
+  ): Promise<number | null> {
+    const robot = new MyCobotController(path, {
+      baudRate: options.baudRate ?? 115200,
+      timeout: options.timeout ?? 1000,
+      logger,
     });
 
-    this.port.on('close', () => {
-      this.isConnected = false;
-      console.log('Connection to myCobot closed');
-    });
+    try {
+      await robot.connect({ signal: options.signal });
 
-    this.port.on('error', (error: Error) => {
-      console.error('Serial port error:', error.message);
-      this.isConnected = false;
+      return await robot.getSystemVersion({ signal: options.signal });
+    } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      logger.debug(`No myCobot on ${path}: ${(error as Error).message}`);
+
+      return null;
+    } finally {
+      await robot.disconnect().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Whether the controller is connected to the robot
+   */
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  /**
+   * Whether an automatic reconnection is in progress
+   */
+  get reconnecting(): boolean {
+    return this.isReconnecting;
+  }
+
+  /**
+   * Joint limits known to the controller, indexed by joint (0-5)
+   * A limit is known once it has been read or written; unknown limits are undefined
+   */
+  get jointLimits(): readonly Partial<IJointLimits>[] {
+    return this.jointMinAngles.map((min, i) => {
+      const max = this.jointMaxAngles[i] ?? null;
+
+      return {
+        ...(min === null ? {} : { min }),
+        ...(max === null ? {} : { max }),
+      };
     });
   }
 
   /**
-   * Open the serial port connection
-   * @returns Promise that resolves when connection is established
+   * Description of the underlying transport (port path, host:port, ...)
    */
-  async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.isConnected) {
-        resolve();
+  get transportDescription(): string {
+    return this.transport.description;
+  }
 
-        return;
-      }
+  /**
+   * Subscribe to transport events
+   */
+  private _initializeTransport(): void {
+    this.dispatcher.on('timeout', (request: IRequestInfo) => {
+      this.logger.warn(`Command timeout: 0x${request.commandId.toString(16).toUpperCase()} (request #${request.id})`);
+      this.emit('timeout', request.commandId, request.timeoutMs, request.id);
+    });
 
-      if (!this.port) {
-        reject(new Error('Serial port not initialized'));
+    this.dispatcher.on('lateResponse', (frame: IFrame, request: IRequestInfo) => {
+      this.logger.warn(`Late response: 0x${frame.commandId.toString(16).toUpperCase()} (request #${request.id})`);
+      this.emit('lateResponse', frame, request);
+    });
 
-        return;
-      }
+    this.parser.on('frame', (frame: IFrame) => {
+      this.emit('packetReceived', frame);
+      this._handleResponse(frame);
+    });
 
-      this.port.open((error: Error | null) => {
-        if (error) {
-          reject(new Error(`Failed to open port: ${error.message}`));
+    this.transport.on('data', (data: Buffer) => {
+      this.parser.push(data);
+    });
 
-          return;
-        }
-        
-        setTimeout(() => {
-          resolve();
-        }, 1500);
-      });
+    this.transport.on('close', () => {
+      this._markDisconnected();
+    });
+
+    this.transport.on('error', (error: Error) => {
+      this.logger.error(`Transport error: ${error.message}`);
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      }
+      this._markDisconnected();
     });
   }
 
   /**
-   * Close the serial port connection
-   * @returns Promise that resolves when connection is closed
+   * Normalize the reconnect option into a complete policy
+   * @param option - Reconnect option as passed by the caller
+   * @returns Policy, or null when reconnection is disabled
    */
-  async disconnect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.isConnected) {
-        resolve();
+  private _resolveReconnectPolicy(
+    option: boolean | IReconnectOptions | undefined,
+  ): Required<IReconnectOptions> | null {
+    if (option === undefined || option === false) {
+      return null;
+    }
 
-        return;
-      }
+    const policy = option === true ? {} : option;
+
+    return {
+      initialDelay: policy.initialDelay ?? 500,
+      maxDelay: policy.maxDelay ?? 10000,
+      factor: policy.factor ?? 2,
+      maxAttempts: policy.maxAttempts ?? Infinity,
+      restoreSpeed: policy.restoreSpeed ?? true,
+    };
+  }
+
+  /**
+   * Flip the connection state and notify listeners once per connection
+   * Pending commands fail with ConnectionLostError and, if enabled, reconnection starts
+   */
+  private _markDisconnected(): void {
+    if (!this.isConnected) {
+      return;
+    }
 
-      if (!this.port) {
-        reject(new Error('Serial port not initialized'));
+    this.isConnected = false;
+    this.dispatcher.rejectAll(new ConnectionLostError());
+    this.logger.info('Connection to myCobot closed');
+    this.emit('disconnect');
 
-        return;
-      }
+    if (this.keepAlive && this.reconnectPolicy && !this.isReconnecting) {
+      this.isReconnecting = true;
+      this._scheduleReconnect(1);
+    }
+  }
 
-      this.port.close((error: Error | null) => {
-        if (error) {
-          reject(new Error(`Failed to close port: ${error.message}`));
+  /**
+   * Schedule a reconnection attempt with exponential backoff
+   * @param attempt - Attempt number, starting at 1
+   */
+  private _scheduleReconnect(attempt: number): void {
+    if (!this.reconnectPolicy) {
+      return;
+    }
 
-          return;
-        }
-        resolve();
-      });
-    });
+    const { initialDelay, factor, maxDelay } = this.reconnectPolicy;
+    const delay = Math.min(initialDelay * factor ** (attempt - 1), maxDelay);
+
+    this.logger.info(`Reconnecting to myCobot in ${delay}ms (attempt ${attempt})`);
+    this.emit('reconnecting', attempt, delay);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this._attemptReconnect(attempt);
+    }, delay);
   }
 
   /**
-   * Parse incoming responses from the robot
-   * Handles packet fragmentation and validates protocol structure
+   * Try to re-open the transport and restore state
+   * @param attempt - Attempt number, starting at 1
    */
-  private _parseResponses(): void {
-    while (this.buffer.length >= PROTOCOL.MIN_PACKET_SIZE) {
-      let startIndex = -1;
-      
-      for (let i = 0; i < this.buffer.length - 1; i += 1) {
-        if (this.buffer[i] === PROTOCOL.HEADER && this.buffer[i + 1] === PROTOCOL.HEADER) {
-          startIndex = i;
-          break;
-        }
+  private async _attemptReconnect(attempt: number): Promise<void> {
+    if (!this.keepAlive || !this.reconnectPolicy) {
+      return;
+    }
+
+    try {
+      if (this.transport.isOpen) {
+        await this.transport.close();
       }
 
-      if (startIndex === -1) {
-        this.buffer = Buffer.alloc(0);
+      await this._openTransport();
+
+      if (!this.keepAlive) {
+        await this.transport.close();
+
         return;
       }
 
-      if (startIndex > 0) {
-        this.buffer = this.buffer.slice(startIndex);
+      if (this.reconnectPolicy.restoreSpeed && this.lastSpeed !== null) {
+        await this.setSpeed(this.lastSpeed);
       }
 
-      if (this.buffer.length < 3) {
-        return;
+      this.isReconnecting = false;
+      this.logger.info(`Reconnected to myCobot on ${this.transport.description}`);
+      this.emit('reconnect', attempt);
+      this.emit('connect');
+    } catch (error) {
+      // Setup may fail after the transport opened: close it so no half-open
+      // connection is left behind
+      if (this.isConnected) {
+        this.isConnected = false;
+        this.dispatcher.rejectAll(new ConnectionLostError());
       }
-
-      const length = this.buffer[2];
-      
-      if (typeof length === 'undefined') {
+      if (this.transport.isOpen) {
+        await this.transport.close().catch(() => undefined);
+      }
+      if (!this.keepAlive) {
         return;
       }
-      
-      const packetLength = PROTOCOL.HEADER_SIZE + PROTOCOL.LENGTH_SIZE + length;
 
-      if (this.buffer.length < packetLength) {
+      this.logger.warn(`Reconnection attempt ${attempt} failed: ${(error as Error).message}`);
+
+      if (attempt >= this.reconnectPolicy.maxAttempts) {
+        this.isReconnecting = false;
+        this.keepAlive = false;
+        this.logger.error(`Giving up reconnecting to myCobot after ${attempt} attempts`);
+        this.emit('reconnectFailed', error as Error);
+
         return;
       }
 
-      const packet = this.buffer.slice(0, packetLength);
-      
-      if (packet[packetLength - 1] === PROTOCOL.FOOTER) {
-        const commandId = packet[3] as TCommandId;
-        const data = packet.slice(4, packetLength - 1);
-        
-        this._handleResponse(commandId, data);
-      }
+      this._scheduleReconnect(attempt + 1);
+    }
+  }
 
-      this.buffer = this.buffer.slice(packetLength);
+  /**
+   * Stop any scheduled reconnection attempt
+   */
+  private _cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
+    this.isReconnecting = false;
   }
 
   /**
-   * Handle a complete response packet
-   * @param commandId - The command ID from the response
-   * @param data - The data payload
+   * Open the transport and wait for the robot to settle
+   * @param signal - Optional abort signal; aborting closes the transport again
+   */
+  private async _openTransport(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    await this.transport.open();
+    this.isConnected = true;
+
+    try {
+      await abortableDelay(1500, signal);
+    } catch (error) {
+      await this.transport.close();
+      this.isConnected = false;
+      throw error;
+    }
+
+    if (!this.isConnected) {
+      throw new ConnectionLostError('Connection to myCobot lost while settling');
+    }
+  }
+
+  /**
+   * Open the connection to the robot
+   * @param options - Abort signal for the open and settle phase
+   * @returns Promise that resolves when connection is established
+   */
+  async connect(options: IAbortOptions = {}): Promise<void> {
+    if (this.isConnected) {
+      return;
+    }
+
+    this._cancelReconnect();
+    await this._openTransport(options.signal);
+    this.keepAlive = true;
+    this.logger.info(`Connected to myCobot on ${this.transport.description}`);
+    this.emit('connect');
+  }
+
+  /**
+   * Close the connection to the robot
+   * @param options - Abort signal, checked before closing
+   * @returns Promise that resolves when connection is closed
+   */
+  async disconnect(options: IAbortOptions = {}): Promise<void> {
+    throwIfAborted(options.signal);
+    this.keepAlive = false;
+    this._cancelReconnect();
+
+    if (!this.isConnected) {
+      return;
+    }
+
+    await this.transport.close();
+    this._markDisconnected();
+  }
+
+  /**
+   * Map per-command timeout overrides from command names to command IDs
+   * @param overrides - Timeouts keyed by COMMAND_IDS name
+   * @returns Timeouts keyed by command ID
+   */
+  private _resolveCommandTimeouts(
+    overrides: Partial<Record<TCommandName, number>>,
+  ): ReadonlyMap<TCommandId, number> {
+    const timeouts = new Map<TCommandId, number>();
+
+    (Object.keys(overrides) as TCommandName[]).forEach((name) => {
+      const commandId = COMMAND_IDS[name];
+      const timeout = overrides[name];
+
+      if (commandId === undefined) {
+        throw new Error(`Unknown command in commandTimeouts: ${name}`);
+      }
+      if (typeof timeout === 'number') {
+        if (timeout <= 0) {
+          throw new Error(`Timeout for ${name} must be a positive number`);
+        }
+        timeouts.set(commandId, timeout);
+      }
+    });
+
+    return timeouts;
+  }
+
+  /**
+   * Resolve the response timeout for a command
+   * Order: per-call override, per-command option, built-in command default, default timeout
+   * @param commandId - The command ID
+   * @param override - Per-call timeout override
+   * @returns Timeout in milliseconds
    */
+  private _getCommandTimeout(commandId: TCommandId, override?: number): number {
+    if (override !== undefined) {
+      if (override <= 0) {
+        throw new Error('Timeout must be a positive number');
+      }
+
+      return override;
+    }
+
+    return this.commandTimeouts.get(commandId) ?? this._getDefaultCommandTimeout(commandId);
+  }
+
   /**
-   * Get command-specific timeout (matching Python library behavior)
+   * Get built-in command-specific timeout (matching Python library behavior)
    * @param commandId - The command ID
    * @returns Timeout in milliseconds
    */
-  private _getCommandTimeout(commandId: TCommandId): number {
+  private _getDefaultCommandTimeout(commandId: TCommandId): number {
     switch (commandId) {
       case COMMAND_IDS.POWER_ON:
         return 8000;
@@ -253,23 +696,18 @@ export class MyCobotController {
       case COMMAND_IDS.SEND_COORDS:
         return 300;
       default:
-        return 500;
+        return this.timeout;
     }
   }
 
-  private _handleResponse(commandId: TCommandId, data: Buffer): void {
-    if (this.responseQueue.length > 0) {
-      const pendingResponse = this.responseQueue.find((item) => item.command === commandId);
-      
-      if (pendingResponse) {
-        const index = this.responseQueue.indexOf(pendingResponse);
-        
-        this.responseQueue.splice(index, 1);
-        
-        const decodedData = this._decodeData(commandId, data);
-        
-        pendingResponse.resolve(decodedData);
-      }
+  /**
+   * Handle a complete response packet
+   * @param frame - The decoded frame
+   */
+  private _handleResponse(frame: IFrame): void {
+    if (!this.dispatcher.handleResponse(frame)) {
+      this.logger.debug(`Unsolicited packet: 0x${frame.commandId.toString(16).toUpperCase()}`);
+      this.emit('unsolicitedPacket', frame);
     }
   }
 
@@ -284,31 +722,68 @@ export class MyCobotController {
       case COMMAND_IDS.SOFTWARE_VERSION:
         return data.length > 0 ? data[0] : 0;
       case COMMAND_IDS.GET_ANGLES:
-      case COMMAND_IDS.GET_COORDS:
-      case COMMAND_IDS.GET_ENCODERS: {
+      case COMMAND_IDS.GET_COORDS: {
         const decoded: number[] = [];
-        
+
         for (let i = 0; i < data.length; i += 2) {
-          decoded.push(data.readInt16BE(i) / 100.0);
+          const scale = commandId === COMMAND_IDS.GET_COORDS ? COORD_SCALES[i / 2] ?? 100 : 100;
+
+          decoded.push(data.readInt16BE(i) / scale);
         }
-        
+
         if (decoded.length === 6) {
-          return decoded as unknown as TJointAngles | TCartesianCoords | TEncoderValues;
+          return decoded as unknown as TJointAngles | TCartesianCoords;
         }
-        
+
         return decoded;
       }
+      case COMMAND_IDS.GET_ENCODERS: {
+        // Raw encoder counts, not scaled like angles
+        const counts: number[] = [];
+
+        for (let i = 0; i + 1 < data.length; i += 2) {
+          counts.push(data.readInt16BE(i));
+        }
+
+        return counts;
+      }
       case COMMAND_IDS.IS_POWER_ON:
       case COMMAND_IDS.IS_GRIPPER_MOVING:
       case COMMAND_IDS.IS_MOVING:
       case COMMAND_IDS.IS_IN_POSITION:
       case COMMAND_IDS.IS_SERVO_ENABLE:
+      case COMMAND_IDS.IS_FREE_MODE:
         return data[0] === 1;
       case COMMAND_IDS.GET_ENCODER:
-        return data.readInt16BE(0) / 100.0;
+        return data.readInt16BE(0);
+      case COMMAND_IDS.GET_SERVO_CURRENTS: {
+        const currents: number[] = [];
+
+        for (let i = 0; i + 1 < data.length; i += 2) {
+          currents.push(data.readInt16BE(i));
+        }
+
+        return currents;
+      }
+      case COMMAND_IDS.GET_SERVO_VOLTAGES:
+        // Reported in tenths of a volt
+        return [...data].map((value) => value / 10);
+      case COMMAND_IDS.GET_SERVO_STATUS:
+      case COMMAND_IDS.GET_SERVO_TEMPS:
+        return [...data];
+      case COMMAND_IDS.GET_ERROR_INFO:
+        return data.length > 0 ? data[0] : 0;
+      case COMMAND_IDS.GET_JOINT_MIN_ANGLE:
+      case COMMAND_IDS.GET_JOINT_MAX_ANGLE:
+        // Some firmware versions echo the joint ID before the angle
+        return data.readInt16BE(data.length - 2) / 100.0;
       case COMMAND_IDS.GET_SPEED:
       case COMMAND_IDS.GET_GRIPPER_VALUE:
         return data.length > 0 ? data[0] : 0;
+      case COMMAND_IDS.GET_DIGITAL_INPUT:
+      case COMMAND_IDS.GET_BASIC_INPUT:
+        // The firmware echoes the pin number before the signal
+        return data.length > 0 ? data[data.length - 1] : 0;
       default:
         return data;
     }
@@ -326,335 +801,712 @@ export class MyCobotController {
     }
 
     let buffer: Buffer;
-    
+
     switch (commandId) {
       case COMMAND_IDS.SEND_ANGLES: {
         if (data.length < 7) {
           throw new Error('SEND_ANGLES requires 7 data values');
         }
-        
+
         buffer = Buffer.alloc(13);
         for (let i = 0; i < 6; i += 1) {
           const angle = data[i];
-          
+
           if (typeof angle !== 'number') {
             throw new Error(`Invalid angle at index ${i}`);
           }
-          
+
           buffer.writeInt16BE(Math.round(angle * 100), i * 2);
         }
-        
+
         const speed = data[6];
-        
+
         if (typeof speed !== 'number') {
           throw new Error('Invalid speed value');
         }
-        
+
         buffer.writeUInt8(speed, 12);
-        
+
         return buffer;
       }
       case COMMAND_IDS.SEND_ANGLE: {
         if (data.length < 3) {
           throw new Error('SEND_ANGLE requires 3 data values');
         }
-        
+
         const jointId = data[0];
         const angle = data[1];
         const speed = data[2];
-        
+
         if (typeof jointId !== 'number' || typeof angle !== 'number' || typeof speed !== 'number') {
           throw new Error('Invalid data values for SEND_ANGLE');
         }
-        
+
         buffer = Buffer.alloc(4);
         buffer.writeUInt8(jointId, 0);
         buffer.writeInt16BE(Math.round(angle * 100), 1);
         buffer.writeUInt8(speed, 3);
-        
+
         return buffer;
       }
       case COMMAND_IDS.SEND_COORDS: {
         if (data.length < 8) {
           throw new Error('SEND_COORDS requires 8 data values');
         }
-        
+
         buffer = Buffer.alloc(14);
         for (let i = 0; i < 6; i += 1) {
           const coord = data[i];
-          
+
           if (typeof coord !== 'number') {
             throw new Error(`Invalid coordinate at index ${i}`);
           }
-          
-          buffer.writeInt16BE(Math.round(coord * 100), i * 2);
+
+          buffer.writeInt16BE(Math.round(coord * (COORD_SCALES[i] ?? 100)), i * 2);
         }
-        
+
         const speed = data[6];
         const mode = data[7];
-        
+
         if (typeof speed !== 'number' || typeof mode !== 'number') {
           throw new Error('Invalid speed or mode values for SEND_COORDS');
         }
-        
+
         buffer.writeUInt8(speed, 12);
         buffer.writeUInt8(mode, 13);
-        
+
         return buffer;
       }
       case COMMAND_IDS.SEND_COORD: {
         if (data.length < 3) {
           throw new Error('SEND_COORD requires 3 data values');
         }
-        
+
         const coord = data[0];
         const value = data[1];
         const speed = data[2];
-        
+
         if (typeof coord !== 'number' || typeof value !== 'number' || typeof speed !== 'number') {
           throw new Error('Invalid data values for SEND_COORD');
         }
-        
+
         buffer = Buffer.alloc(4);
         buffer.writeUInt8(coord, 0);
-        buffer.writeInt16BE(Math.round(value * 100), 1);
+        buffer.writeInt16BE(Math.round(value * (COORD_SCALES[coord - 1] ?? 100)), 1);
         buffer.writeUInt8(speed, 3);
-        
+
         return buffer;
       }
-      case COMMAND_IDS.SET_GRIPPER_STATE:
-      case COMMAND_IDS.SET_GRIPPER_VALUE: {
-        if (data.length < 2) {
-          throw new Error('Gripper commands require 2 data values');
+      case COMMAND_IDS.GET_SERVO_DATA:
+      case COMMAND_IDS.SET_SERVO_DATA: {
+        const isSet = commandId === COMMAND_IDS.SET_SERVO_DATA;
+
+        if (data.length < (isSet ? 3 : 2)) {
+          throw new Error(`${isSet ? 'SET' : 'GET'}_SERVO_DATA requires ${isSet ? 3 : 2} data values`);
         }
-        
-        const flagOrValue = data[0];
-        const speed = data[1];
-        
-        if (typeof flagOrValue !== 'number' || typeof speed !== 'number') {
-          throw new Error('Invalid data values for gripper command');
+
+        const jointId = data[0];
+        const address = data[1];
+        const value = data[2] ?? 0;
+
+        if (typeof jointId !== 'number' || typeof address !== 'number' || typeof value !== 'number') {
+          throw new Error('Invalid data values for servo data command');
         }
-        
-        buffer = Buffer.alloc(2);
-        buffer.writeUInt8(flagOrValue, 0);
-        buffer.writeUInt8(speed, 1);
-        
-        return buffer;
+
+        const bytes = [jointId, address];
+
+        // Two-byte registers are accessed with a trailing mode byte of 1 and written
+        // as a big-endian word
+        if (WIDE_SERVO_REGISTERS.has(address)) {
+          if (isSet) {
+            bytes.push(Math.floor(value / 256), value % 256);
+          }
+          bytes.push(1);
+        } else if (isSet) {
+          bytes.push(value);
+        }
+
+        return Buffer.from(bytes);
       }
-      default:
-        // For simple data, convert to buffer
-        if (Array.isArray(data)) {
-          return Buffer.from(data);
+      case COMMAND_IDS.SET_JOINT_MIN:
+      case COMMAND_IDS.SET_JOINT_MAX: {
+        if (data.length < 2) {
+          throw new Error('Joint limit commands require 2 data values');
         }
-        
-        // Single number case
-        if (typeof data === 'number') {
-          return Buffer.from([data]);
+
+        const jointId = data[0];
+        const angle = data[1];
+
+        if (typeof jointId !== 'number' || typeof angle !== 'number') {
+          throw new Error('Invalid data values for joint limit command');
         }
-        
-        throw new Error('Invalid data type for encoding');
-    }
-  }
 
-  /**
-   * Send a command to the robot
-   * @param commandId - Command ID from COMMAND_IDS
+        buffer = Buffer.alloc(3);
+        buffer.writeUInt8(jointId, 0);
+        buffer.writeInt16BE(Math.round(angle * 100), 1);
+
+        return buffer;
+      }
+      case COMMAND_IDS.JOG_ANGLE:
+      case COMMAND_IDS.JOG_COORD: {
+        if (data.length < 3) {
+          throw new Error('Jog commands require 3 data values');
+        }
+
+        const id = data[0];
+        const direction = data[1];
+        const speed = data[2];
+
+        if (typeof id !== 'number' || typeof direction !== 'number' || typeof speed !== 'number') {
+          throw new Error('Invalid data values for jog command');
+        }
+
+        buffer = Buffer.alloc(3);
+        buffer.writeUInt8(id, 0);
+        buffer.writeUInt8(direction, 1);
+        buffer.writeUInt8(speed, 2);
+
+        return buffer;
+      }
+      case COMMAND_IDS.SET_ENCODER: {
+        if (data.length < 3) {
+          throw new Error('SET_ENCODER requires 3 data values');
+        }
+
+        const jointId = data[0];
+        const encoder = data[1];
+        const speed = data[2];
+
+        if (typeof jointId !== 'number' || typeof encoder !== 'number' || typeof speed !== 'number') {
+          throw new Error('Invalid data values for SET_ENCODER');
+        }
+
+        buffer = Buffer.alloc(4);
+        buffer.writeUInt8(jointId, 0);
+        buffer.writeInt16BE(encoder, 1);
+        buffer.writeUInt8(speed, 3);
+
+        return buffer;
+      }
+      case COMMAND_IDS.SET_ENCODERS: {
+        if (data.length < 7) {
+          throw new Error('SET_ENCODERS requires 7 data values');
+        }
+
+        buffer = Buffer.alloc(13);
+        for (let i = 0; i < 6; i += 1) {
+          const encoder = data[i];
+
+          if (typeof encoder !== 'number') {
+            throw new Error(`Invalid encoder value at index ${i}`);
+          }
+
+          buffer.writeInt16BE(encoder, i * 2);
+        }
+
+        const speed = data[6];
+
+        if (typeof speed !== 'number') {
+          throw new Error('Invalid speed value');
+        }
+
+        buffer.writeUInt8(speed, 12);
+
+        return buffer;
+      }
+      case COMMAND_IDS.SET_ENCODERS_DRAG: {
+        if (data.length < 12) {
+          throw new Error('SET_ENCODERS_DRAG requires 12 data values');
+        }
+
+        // Six encoder targets followed by six per-joint speeds, all 16-bit
+        buffer = Buffer.alloc(24);
+        for (let i = 0; i < 12; i += 1) {
+          const value = data[i];
+
+          if (typeof value !== 'number') {
+            throw new Error(`Invalid ${i < 6 ? 'encoder' : 'speed'} value at index ${i % 6}`);
+          }
+
+          buffer.writeInt16BE(value, i * 2);
+        }
+
+        return buffer;
+      }
+      case COMMAND_IDS.SET_PWM_OUTPUT: {
+        if (data.length < 3) {
+          throw new Error('SET_PWM_OUTPUT requires 3 data values');
+        }
+
+        const channel = data[0];
+        const frequency = data[1];
+        const dutyCycle = data[2];
+
+        if (typeof channel !== 'number' || typeof frequency !== 'number' || typeof dutyCycle !== 'number') {
+          throw new Error('Invalid data values for SET_PWM_OUTPUT');
+        }
+
+        buffer = Buffer.alloc(4);
+        buffer.writeUInt8(channel, 0);
+        buffer.writeUInt16BE(frequency, 1);
+        buffer.writeUInt8(dutyCycle, 3);
+
+        return buffer;
+      }
+      case COMMAND_IDS.SET_GRIPPER_STATE:
+      case COMMAND_IDS.SET_GRIPPER_VALUE: {
+        if (data.length < 2) {
+          throw new Error('Gripper commands require 2 data values');
+        }
+
+        const flagOrValue = data[0];
+        const speed = data[1];
+
+        if (typeof flagOrValue !== 'number' || typeof speed !== 'number') {
+          throw new Error('Invalid data values for gripper command');
+        }
+
+        buffer = Buffer.alloc(2);
+        buffer.writeUInt8(flagOrValue, 0);
+        buffer.writeUInt8(speed, 1);
+
+        return buffer;
+      }
+      default:
+        // For simple data, convert to buffer
+        if (Array.isArray(data)) {
+          return Buffer.from(data);
+        }
+
+        // Single number case
+        if (typeof data === 'number') {
+          return Buffer.from([data]);
+        }
+
+        throw new Error('Invalid data type for encoding');
+    }
+  }
+
+  /**
+   * Send a command to the robot
+   * @param commandId - Command ID from COMMAND_IDS
    * @param data - Command data payload
    * @param waitForResponse - Whether to wait for a response
+   * @param options - Per-call options
    * @returns Promise that resolves with response data or void
    */
   private async _sendCommand<T = void>(
-    commandId: TCommandId, 
-    data: TCommandData = null, 
-    waitForResponse = false
+    commandId: TCommandId,
+    data: TCommandData = null,
+    waitForResponse = false,
+    options: ICommandOptions = {},
   ): Promise<T> {
-    if (!this.isConnected) {
-      throw new Error('Not connected to myCobot. Call connect() first.');
-    }
-
-    if (!this.port) {
-      throw new Error('Serial port not initialized');
-    }
-
-    const encodedData = this._encodeData(commandId, data);
-    const length = encodedData.length + 2; // Match Python: +2 for command ID + footer
-    const totalLength = PROTOCOL.HEADER_SIZE + PROTOCOL.LENGTH_SIZE + PROTOCOL.COMMAND_ID_SIZE + encodedData.length + PROTOCOL.FOOTER_SIZE;
-    
-    const command = Buffer.alloc(totalLength);
-    let offset = 0;
+    const payload = this._encodeData(commandId, data);
+    const timeout = waitForResponse ? this._getCommandTimeout(commandId, options.timeout) : null;
 
-    command.writeUInt8(PROTOCOL.HEADER, offset);
-    offset += 1;
-    command.writeUInt8(PROTOCOL.HEADER, offset);
-    offset += 1;
+    let supersedes: number | undefined;
 
-    command.writeUInt8(length, offset);
-    offset += 1;
+    for (let attempt = 1; ; attempt += 1) {
+      throwIfAborted(options.signal);
+      this._assertConnected();
 
-    command.writeUInt8(commandId, offset);
-    offset += 1;
+      try {
+        const response = await this.dispatcher.send(
+          commandId,
+          async () => {
+            await this.transport.write(encodeFrame(commandId, payload));
+            this.emit('packetSent', { commandId, payload });
+          },
+          timeout,
+          supersedes === undefined
+            ? { signal: options.signal }
+            : { supersedes, signal: options.signal },
+        );
+
+        return (response === null ? undefined : this._decodeData(commandId, response)) as T;
+      } catch (error) {
+        const retry = error instanceof CommandTimeoutError
+          && this.retryPolicy?.shouldRetry(commandId, attempt) === true;
+
+        if (!retry) {
+          throw error;
+        }
 
-    if (encodedData.length > 0) {
-      encodedData.copy(command, offset);
-      offset += encodedData.length;
+        supersedes = error.requestId;
+        this.logger.debug(`Retrying 0x${commandId.toString(16).toUpperCase()} (attempt ${attempt + 1}/${this.retryPolicy.attempts})`);
+        this.emit('retry', commandId, attempt + 1, this.retryPolicy.attempts, error);
+        await abortableDelay(this.retryPolicy.getDelay(), options.signal);
+      }
     }
+  }
 
-    command.writeUInt8(PROTOCOL.FOOTER, offset);
-
-    this.port.write(command);
-
-    if (waitForResponse) {
-      return new Promise<T>((resolve, reject) => {
-        const commandTimeout = this._getCommandTimeout(commandId);
-        const timeoutId = setTimeout(() => {
-          const index = this.responseQueue.findIndex((item) => item.command === commandId);
-          
-          if (index >= 0) {
-            this.responseQueue.splice(index, 1);
-          }
-          reject(new Error(`Command timeout: 0x${commandId.toString(16).toUpperCase()}`));
-        }, commandTimeout);
-
-        this.responseQueue.push({
-          command: commandId,
-          resolve: (result: unknown) => {
-            clearTimeout(timeoutId);
-            resolve(result as T);
-          },
-          reject: (error: Error) => {
-            clearTimeout(timeoutId);
-            reject(error);
-          },
-        });
-      });
+  /**
+   * Throw if no command can be sent right now
+   */
+  private _assertConnected(): void {
+    if (this.isConnected) {
+      return;
     }
 
-    return Promise.resolve() as Promise<T>;
+    if (this.isReconnecting) {
+      throw new ConnectionLostError('Connection to myCobot lost, reconnection in progress');
+    }
+    throw new Error('Not connected to myCobot. Call connect() first.');
   }
 
-
   /**
    * Get system software version
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with version number
    */
-  async getSystemVersion(): Promise<number> {
-    return this._sendCommand<number>(COMMAND_IDS.SOFTWARE_VERSION, null, true);
+  async getSystemVersion(options: ICommandOptions = {}): Promise<number> {
+    return this._sendCommand<number>(COMMAND_IDS.SOFTWARE_VERSION, null, true, options);
   }
 
   /**
    * Power on all servo motors
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async powerOn(): Promise<void> {
-    await this._sendCommand(COMMAND_IDS.POWER_ON);
+  async powerOn(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.POWER_ON, null, false, options);
   }
 
   /**
    * Power off all servo motors
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async powerOff(): Promise<void> {
-    await this._sendCommand(COMMAND_IDS.POWER_OFF);
+  async powerOff(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.POWER_OFF, null, false, options);
   }
 
   /**
    * Check if servo motors are powered on
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with power status
    */
-  async isPowerOn(): Promise<TPowerStatus> {
-    return this._sendCommand<TPowerStatus>(COMMAND_IDS.IS_POWER_ON, null, true);
+  async isPowerOn(options: ICommandOptions = {}): Promise<TPowerStatus> {
+    return this._sendCommand<TPowerStatus>(COMMAND_IDS.IS_POWER_ON, null, true, options);
   }
 
   /**
    * Release all servo motors (free movement mode)
    * WARNING: The arm may fall due to gravity
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async releaseAllServos(): Promise<void> {
-    await this._sendCommand(COMMAND_IDS.RELEASE_ALL_SERVOS);
+  async releaseAllServos(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.RELEASE_ALL_SERVOS, null, false, options);
+  }
+
+  /**
+   * Turn the firmware free-move mode on or off
+   * In free mode the servos stay powered but yield to an operator's hand, so the
+   * arm can be dragged into position without dropping under gravity
+   * @param enabled - True to enter free mode, false to lock the joints again
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setFreeMode(enabled: boolean, options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.SET_FREE_MODE, [enabled ? 1 : 0], false, options);
+  }
+
+  /**
+   * Check if the firmware free-move mode is on
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with free mode status
+   */
+  async isFreeMode(options: ICommandOptions = {}): Promise<boolean> {
+    return this._sendCommand<boolean>(COMMAND_IDS.IS_FREE_MODE, null, true, options);
   }
 
   /**
    * Check if a specific servo is enabled
    * @param servoId - Servo ID (1-6)
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with servo enable status
    */
-  async isServoEnable(servoId: TJointId): Promise<boolean> {
+  async isServoEnable(servoId: TJointId, options: ICommandOptions = {}): Promise<boolean> {
     if (servoId < 1 || servoId > 6) {
       throw new Error('Servo ID must be between 1 and 6');
     }
-    return this._sendCommand<boolean>(COMMAND_IDS.IS_SERVO_ENABLE, [servoId], true);
+
+    return this._sendCommand<boolean>(COMMAND_IDS.IS_SERVO_ENABLE, [servoId], true, options);
   }
 
   /**
    * Release a specific servo motor
    * @param servoId - Servo ID (1-6)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async releaseServo(servoId: TJointId): Promise<void> {
+  async releaseServo(servoId: TJointId, options: ICommandOptions = {}): Promise<void> {
     if (servoId < 1 || servoId > 6) {
       throw new Error('Servo ID must be between 1 and 6');
     }
-    await this._sendCommand(COMMAND_IDS.RELEASE_SERVO, [servoId]);
+    await this._sendCommand(COMMAND_IDS.RELEASE_SERVO, [servoId], false, options);
   }
 
   /**
    * Focus (enable) a specific servo motor
    * @param servoId - Servo ID (1-6)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async focusServo(servoId: TJointId): Promise<void> {
+  async focusServo(servoId: TJointId, options: ICommandOptions = {}): Promise<void> {
     if (servoId < 1 || servoId > 6) {
       throw new Error('Servo ID must be between 1 and 6');
     }
-    await this._sendCommand(COMMAND_IDS.FOCUS_SERVO, [servoId]);
+    await this._sendCommand(COMMAND_IDS.FOCUS_SERVO, [servoId], false, options);
+  }
+
+  /**
+   * Read a servo register
+   * @param jointId - Joint ID (1-6)
+   * @param register - Register address or name from SERVO_REGISTERS
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with the register value
+   */
+  async getServoData(
+    jointId: TJointId,
+    register: TServoRegister | TServoRegisterName,
+    options: ICommandOptions = {},
+  ): Promise<number> {
+    this._assertJointId(jointId);
+
+    const address = this._resolveServoRegister(register);
+    const response = await this._sendCommand<Buffer>(
+      COMMAND_IDS.GET_SERVO_DATA,
+      [jointId, address],
+      true,
+      options,
+    );
+
+    // The value is at the end of the payload; some firmware versions echo the request first
+    if (WIDE_SERVO_REGISTERS.has(address)) {
+      return response.length >= 2 ? response.readUInt16BE(response.length - 2) : 0;
+    }
+
+    return response[response.length - 1] ?? 0;
+  }
+
+  /**
+   * Write a servo register
+   * Most registers are stored in the servo's EEPROM, so avoid writing them in a loop
+   * @param jointId - Joint ID (1-6)
+   * @param register - Register address or name from SERVO_REGISTERS
+   * @param value - New value (0-255, or 0-65535 for two-byte registers)
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setServoData(
+    jointId: TJointId,
+    register: TServoRegister | TServoRegisterName,
+    value: number,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    this._assertJointId(jointId);
+
+    const address = this._resolveServoRegister(register);
+    const max = WIDE_SERVO_REGISTERS.has(address) ? 0xFFFF : 0xFF;
+
+    if (!Number.isInteger(value) || value < 0 || value > max) {
+      throw new Error(`Servo register ${address} value must be an integer between 0 and ${max}`);
+    }
+
+    await this._sendCommand(COMMAND_IDS.SET_SERVO_DATA, [jointId, address, value], false, options);
+  }
+
+  /**
+   * Map a register name to its address and check that it is known
+   * @param register - Register address or name
+   * @returns Register address
+   */
+  private _resolveServoRegister(register: TServoRegister | TServoRegisterName): TServoRegister {
+    const address = typeof register === 'string' ? SERVO_REGISTERS[register] : register;
+
+    if (!(Object.values(SERVO_REGISTERS) as number[]).includes(address)) {
+      throw new Error(`Unknown servo register: ${String(register)}`);
+    }
+
+    return address;
+  }
+
+  /**
+   * Make the current position of a joint its zero angle
+   * The new zero is stored in the servo. Release the joint and move it to its
+   * zero mark first, or use ServoCalibration for a guided workflow
+   * @param jointId - Joint ID (1-6)
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setServoCalibration(jointId: TJointId, options: ICommandOptions = {}): Promise<void> {
+    this._assertJointId(jointId);
+    await this._sendCommand(COMMAND_IDS.SET_SERVO_CALIBRATION, [jointId], false, options);
+  }
+
+  /**
+   * Get the supply voltage of every servo
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with voltages in volts for joints 1-6
+   */
+  async getServoVoltages(options: ICommandOptions = {}): Promise<TServoValues> {
+    return this._sendCommand<TServoValues>(COMMAND_IDS.GET_SERVO_VOLTAGES, null, true, options);
+  }
+
+  /**
+   * Get the temperature of every servo
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with temperatures in degrees Celsius for joints 1-6
+   */
+  async getServoTemperatures(options: ICommandOptions = {}): Promise<TServoValues> {
+    return this._sendCommand<TServoValues>(COMMAND_IDS.GET_SERVO_TEMPS, null, true, options);
+  }
+
+  /**
+   * Get the current draw (load) of every servo
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with currents in milliamps for joints 1-6
+   */
+  async getServoCurrents(options: ICommandOptions = {}): Promise<TServoValues> {
+    return this._sendCommand<TServoValues>(COMMAND_IDS.GET_SERVO_CURRENTS, null, true, options);
+  }
+
+  /**
+   * Get the raw status byte of every servo
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with status bytes for joints 1-6 (0 when healthy)
+   */
+  async getServoStatuses(options: ICommandOptions = {}): Promise<TServoValues> {
+    return this._sendCommand<TServoValues>(COMMAND_IDS.GET_SERVO_STATUS, null, true, options);
+  }
+
+  /**
+   * Read voltage, temperature, current and status of all six servos
+   * @param options - Per-call options and the overheating threshold
+   * @returns Promise that resolves with one summary per joint
+   */
+  async getServoDiagnostics(options: IServoDiagnosticsOptions = {}): Promise<IServoDiagnostics[]> {
+    const { maxTemperature = 60, ...commandOptions } = options;
+    const voltages = await this.getServoVoltages(commandOptions);
+    const temperatures = await this.getServoTemperatures(commandOptions);
+    const currents = await this.getServoCurrents(commandOptions);
+    const statuses = await this.getServoStatuses(commandOptions);
+    const diagnostics: IServoDiagnostics[] = [];
+
+    for (let i = 0; i < 6; i += 1) {
+      const temperature = temperatures[i] ?? 0;
+      const status = statuses[i] ?? 0;
+      const errors = this._decodeServoStatus(status);
+
+      diagnostics.push({
+        jointId: (i + 1) as TJointId,
+        voltage: voltages[i] ?? 0,
+        temperature,
+        current: currents[i] ?? 0,
+        status,
+        errors,
+        overheating: errors.temperature || temperature >= maxTemperature,
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Get the robot's last error code
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with the error code
+   * (0: no error, 1-6: joint out of limits, 32+: motion planning errors)
+   */
+  async getErrorInfo(options: ICommandOptions = {}): Promise<number> {
+    return this._sendCommand<number>(COMMAND_IDS.GET_ERROR_INFO, null, true, options);
+  }
+
+  /**
+   * Clear the robot's last error code
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async clearErrorInfo(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.CLEAR_ERROR_INFO, null, false, options);
+  }
+
+  /**
+   * Decode the fault bits of a servo status byte
+   * @param status - Raw status byte
+   * @returns Decoded fault flags
+   */
+  private _decodeServoStatus(status: number): IServoErrorFlags {
+    const isSet = (bit: number): boolean => Math.floor(status / bit) % 2 === 1;
+
+    return {
+      voltage: isSet(SERVO_STATUS_BITS.voltage),
+      sensor: isSet(SERVO_STATUS_BITS.sensor),
+      temperature: isSet(SERVO_STATUS_BITS.temperature),
+      current: isSet(SERVO_STATUS_BITS.current),
+      overload: isSet(SERVO_STATUS_BITS.overload),
+    };
   }
 
   /**
    * Get current robot movement speed
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with current speed
    */
-  async getSpeed(): Promise<number> {
-    return this._sendCommand<number>(COMMAND_IDS.GET_SPEED, null, true);
+  async getSpeed(options: ICommandOptions = {}): Promise<number> {
+    return this._sendCommand<number>(COMMAND_IDS.GET_SPEED, null, true, options);
   }
 
   /**
    * Set robot movement speed
    * @param speed - Movement speed (0-100)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async setSpeed(speed: TMovementSpeed): Promise<void> {
+  async setSpeed(speed: TMovementSpeed, options: ICommandOptions = {}): Promise<void> {
     if (speed < 0 || speed > 100) {
       throw new Error('Speed must be between 0 and 100');
     }
-    await this._sendCommand(COMMAND_IDS.SET_SPEED, [speed]);
+    await this._sendCommand(COMMAND_IDS.SET_SPEED, [speed], false, options);
+    this.lastSpeed = speed;
   }
 
   /**
    * Get current angles of all six joints
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with array of 6 angles in degrees
    */
-  async getAngles(): Promise<TJointAngles> {
-    return this._sendCommand<TJointAngles>(COMMAND_IDS.GET_ANGLES, null, true);
+  async getAngles(options: ICommandOptions = {}): Promise<TJointAngles> {
+    return this._sendCommand<TJointAngles>(COMMAND_IDS.GET_ANGLES, null, true, options);
   }
 
   /**
    * Set angles for all six joints
    * @param angles - Array of 6 angles in degrees
    * @param speed - Movement speed (0-100)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async sendAngles(angles: TJointAngles, speed: TMovementSpeed): Promise<void> {
+  async sendAngles(
+    angles: TJointAngles,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
     if (angles.length !== 6) {
       throw new Error('Angles must be an array of exactly 6 numbers');
     }
     if (speed < 0 || speed > 100) {
       throw new Error('Speed must be between 0 and 100');
     }
+    angles.forEach((angle, i) => {
+      this._assertWithinJointLimits((i + 1) as TJointId, angle);
+    });
 
     const data = [...angles, speed] as const;
-    
-    await this._sendCommand(COMMAND_IDS.SEND_ANGLES, data);
+
+    await this._sendCommand(COMMAND_IDS.SEND_ANGLES, data, false, options);
   }
 
   /**
@@ -662,27 +1514,213 @@ export class MyCobotController {
    * @param jointId - Joint ID (1-6)
    * @param angle - Angle in degrees
    * @param speed - Movement speed (0-100)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async sendAngle(jointId: TJointId, angle: number, speed: TMovementSpeed): Promise<void> {
+  async sendAngle(
+    jointId: TJointId,
+    angle: number,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
     if (jointId < 1 || jointId > 6) {
       throw new Error('Joint ID must be between 1 and 6');
     }
     if (speed < 0 || speed > 100) {
       throw new Error('Speed must be between 0 and 100');
     }
+    this._assertWithinJointLimits(jointId, angle);
 
     const data = [jointId, angle, speed] as const;
-    
-    await this._sendCommand(COMMAND_IDS.SEND_ANGLE, data);
+
+    await this._sendCommand(COMMAND_IDS.SEND_ANGLE, data, false, options);
+  }
+
+  /**
+   * Set all joint angles and wait until the arm reaches them
+   * @param angles - Array of 6 joint angles in degrees
+   * @param speed - Movement speed (0-100)
+   * @param options - Tolerance, wait timeout, poll interval and per-call options
+   * @returns Promise that resolves with the reached angles, or rejects with MotionTimeoutError
+   */
+  async sendAnglesAndWait(
+    angles: TJointAngles,
+    speed: TMovementSpeed,
+    options: IMotionWaitOptions = {},
+  ): Promise<TJointAngles> {
+    await this.sendAngles(angles, speed, options);
+
+    return this._waitForPose(async () => this.getAngles(options), angles, false, options);
+  }
+
+  /**
+   * Set a single joint angle and wait until the joint reaches it
+   * @param jointId - Joint ID (1-6)
+   * @param angle - Angle in degrees
+   * @param speed - Movement speed (0-100)
+   * @param options - Tolerance, wait timeout, poll interval and per-call options
+   * @returns Promise that resolves with the reached angles, or rejects with MotionTimeoutError
+   */
+  async sendAngleAndWait(
+    jointId: TJointId,
+    angle: number,
+    speed: TMovementSpeed,
+    options: IMotionWaitOptions = {},
+  ): Promise<TJointAngles> {
+    await this.sendAngle(jointId, angle, speed, options);
+
+    const target: (number | null)[] = [null, null, null, null, null, null];
+
+    target[jointId - 1] = angle;
+
+    return this._waitForPose(async () => this.getAngles(options), target, false, options);
+  }
+
+  /**
+   * Get the minimum angle of a joint stored in firmware, and cache it
+   * @param jointId - Joint ID (1-6)
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with the limit in degrees
+   */
+  async getJointMinAngle(jointId: TJointId, options: ICommandOptions = {}): Promise<number> {
+    this._assertJointId(jointId);
+
+    const angle = await this._sendCommand<number>(
+      COMMAND_IDS.GET_JOINT_MIN_ANGLE,
+      [jointId],
+      true,
+      options,
+    );
+
+    this.jointMinAngles[jointId - 1] = angle;
+
+    return angle;
+  }
+
+  /**
+   * Get the maximum angle of a joint stored in firmware, and cache it
+   * @param jointId - Joint ID (1-6)
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with the limit in degrees
+   */
+  async getJointMaxAngle(jointId: TJointId, options: ICommandOptions = {}): Promise<number> {
+    this._assertJointId(jointId);
+
+    const angle = await this._sendCommand<number>(
+      COMMAND_IDS.GET_JOINT_MAX_ANGLE,
+      [jointId],
+      true,
+      options,
+    );
+
+    this.jointMaxAngles[jointId - 1] = angle;
+
+    return angle;
+  }
+
+  /**
+   * Store a new minimum angle for a joint in firmware
+   * @param jointId - Joint ID (1-6)
+   * @param angle - Limit in degrees
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setJointMinAngle(
+    jointId: TJointId,
+    angle: number,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    this._assertJointId(jointId);
+
+    const max = this.jointMaxAngles[jointId - 1];
+
+    if (max !== null && max !== undefined && angle >= max) {
+      throw new Error(`Minimum angle for joint ${jointId} must be below its maximum (${max})`);
+    }
+
+    await this._sendCommand(COMMAND_IDS.SET_JOINT_MIN, [jointId, angle], false, options);
+    this.jointMinAngles[jointId - 1] = angle;
+  }
+
+  /**
+   * Store a new maximum angle for a joint in firmware
+   * @param jointId - Joint ID (1-6)
+   * @param angle - Limit in degrees
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setJointMaxAngle(
+    jointId: TJointId,
+    angle: number,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    this._assertJointId(jointId);
+
+    const min = this.jointMinAngles[jointId - 1];
+
+    if (min !== null && min !== undefined && angle <= min) {
+      throw new Error(`Maximum angle for joint ${jointId} must be above its minimum (${min})`);
+    }
+
+    await this._sendCommand(COMMAND_IDS.SET_JOINT_MAX, [jointId, angle], false, options);
+    this.jointMaxAngles[jointId - 1] = angle;
+  }
+
+  /**
+   * Read the limits of all six joints from firmware, filling the cache
+   * used to validate sendAngle()/sendAngles()
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with the limits of joints 1-6
+   */
+  async getJointLimits(options: ICommandOptions = {}): Promise<IJointLimits[]> {
+    const limits: IJointLimits[] = [];
+
+    for (let jointId = 1; jointId <= 6; jointId += 1) {
+      const min = await this.getJointMinAngle(jointId as TJointId, options);
+      const max = await this.getJointMaxAngle(jointId as TJointId, options);
+
+      limits.push({ min, max });
+    }
+
+    return limits;
+  }
+
+  /**
+   * Throw if a joint ID is out of range
+   * @param jointId - Joint ID
+   */
+  private _assertJointId(jointId: number): void {
+    if (jointId < 1 || jointId > 6) {
+      throw new Error('Joint ID must be between 1 and 6');
+    }
+  }
+
+  /**
+   * Throw if an angle falls outside the cached limits of its joint
+   * Joints whose limits have not been read or written are not checked
+   * @param jointId - Joint ID (1-6)
+   * @param angle - Target angle in degrees
+   */
+  private _assertWithinJointLimits(jointId: TJointId, angle: number): void {
+    if (!this.validateJointLimits) {
+      return;
+    }
+
+    const min = this.jointMinAngles[jointId - 1] ?? null;
+    const max = this.jointMaxAngles[jointId - 1] ?? null;
+
+    if ((min !== null && angle < min) || (max !== null && angle > max)) {
+      throw new Error(`Angle ${angle} for joint ${jointId} is outside its limits [${min ?? '-∞'}, ${max ?? '∞'}]`);
+    }
   }
 
   /**
    * Get current cartesian coordinates of the end-effector
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with [x, y, z, rx, ry, rz]
    */
-  async getCoords(): Promise<TCartesianCoords> {
-    return this._sendCommand<TCartesianCoords>(COMMAND_IDS.GET_COORDS, null, true);
+  async getCoords(options: ICommandOptions = {}): Promise<TCartesianCoords> {
+    return this._sendCommand<TCartesianCoords>(COMMAND_IDS.GET_COORDS, null, true, options);
   }
 
   /**
@@ -690,9 +1728,15 @@ export class MyCobotController {
    * @param coords - Array of 6 coordinates [x, y, z, rx, ry, rz]
    * @param speed - Movement speed (0-100)
    * @param mode - Interpolation mode (0: angular, 1: linear)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async sendCoords(coords: TCartesianCoords, speed: TMovementSpeed, mode: TInterpolationMode = 0): Promise<void> {
+  async sendCoords(
+    coords: TCartesianCoords,
+    speed: TMovementSpeed,
+    mode: TInterpolationMode = 0,
+    options: ICommandOptions = {},
+  ): Promise<void> {
     if (coords.length !== 6) {
       throw new Error('Coordinates must be an array of exactly 6 numbers');
     }
@@ -704,8 +1748,8 @@ export class MyCobotController {
     }
 
     const data = [...coords, speed, mode] as const;
-    
-    await this._sendCommand(COMMAND_IDS.SEND_COORDS, data);
+
+    await this._sendCommand(COMMAND_IDS.SEND_COORDS, data, false, options);
   }
 
   /**
@@ -713,9 +1757,15 @@ export class MyCobotController {
    * @param coord - Coordinate index (1-6: x, y, z, rx, ry, rz)
    * @param value - Coordinate value
    * @param speed - Movement speed (0-100)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async sendCoord(coord: TCoordinateId, value: number, speed: TMovementSpeed): Promise<void> {
+  async sendCoord(
+    coord: TCoordinateId,
+    value: number,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
     if (coord < 1 || coord > 6) {
       throw new Error('Coordinate index must be between 1 and 6');
     }
@@ -724,57 +1774,334 @@ export class MyCobotController {
     }
 
     const data = [coord, value, speed] as const;
-    
-    await this._sendCommand(COMMAND_IDS.SEND_COORD, data);
+
+    await this._sendCommand(COMMAND_IDS.SEND_COORD, data, false, options);
+  }
+
+  /**
+   * Set all cartesian coordinates and wait until the end-effector reaches them
+   * @param coords - Array of 6 coordinates [x, y, z, rx, ry, rz]
+   * @param speed - Movement speed (0-100)
+   * @param mode - Interpolation mode (0: angular, 1: linear)
+   * @param options - Tolerance, wait timeout, poll interval and per-call options
+   * @returns Promise that resolves with the reached coordinates, or rejects with MotionTimeoutError
+   */
+  async sendCoordsAndWait(
+    coords: TCartesianCoords,
+    speed: TMovementSpeed,
+    mode: TInterpolationMode = 0,
+    options: IMotionWaitOptions = {},
+  ): Promise<TCartesianCoords> {
+    await this.sendCoords(coords, speed, mode, options);
+
+    return this._waitForPose(async () => this.getCoords(options), coords, true, options);
+  }
+
+  /**
+   * Set a single coordinate value and wait until the end-effector reaches it
+   * @param coord - Coordinate index (1-6: x, y, z, rx, ry, rz)
+   * @param value - Coordinate value
+   * @param speed - Movement speed (0-100)
+   * @param options - Tolerance, wait timeout, poll interval and per-call options
+   * @returns Promise that resolves with the reached coordinates, or rejects with MotionTimeoutError
+   */
+  async sendCoordAndWait(
+    coord: TCoordinateId,
+    value: number,
+    speed: TMovementSpeed,
+    options: IMotionWaitOptions = {},
+  ): Promise<TCartesianCoords> {
+    await this.sendCoord(coord, value, speed, options);
+
+    const target: (number | null)[] = [null, null, null, null, null, null];
+
+    target[coord - 1] = value;
+
+    return this._waitForPose(async () => this.getCoords(options), target, true, options);
+  }
+
+  /**
+   * Move the tool along a straight line, interpolated on the host
+   * The path is split into small steps (orientation by slerp), every step is solved
+   * with inverseKinematics() and checked before anything moves; the joint waypoints
+   * are then streamed with sendAngles() at the requested tool speed, each one when
+   * the tool is due there. Joint limits read or written through this controller
+   * override the factory limits.
+   * @param targetCoords - Target pose as [x, y, z, rx, ry, rz]
+   * @param options - Tool speed, step sizes, checks, tool offset, arrival wait and per-call options
+   * @returns Promise that resolves with the reached angles once the arm arrives at the
+   * final waypoint, or rejects with MotionTimeoutError
+   * @throws LinearMoveError if a step is unreachable, near a singularity or needs a joint to jump
+   */
+  async moveLinear(
+    targetCoords: TCartesianCoords,
+    options: ILinearMoveOptions = {},
+  ): Promise<TJointAngles> {
+    const {
+      velocity = 30,
+      angularVelocity = 30,
+      moveSpeed = 100,
+      signal,
+    } = options;
+
+    if (!(velocity > 0) || !(angularVelocity > 0)) {
+      throw new Error('Velocity and angular velocity must be positive');
+    }
+    if (moveSpeed < 0 || moveSpeed > 100) {
+      throw new Error('Speed must be between 0 and 100');
+    }
+
+    const startAngles = await this.getAngles(options);
+    const jointLimits = MYCOBOT_280_JOINT_LIMITS.map((limit, i) => ({
+      ...limit,
+      ...this.jointLimits[i],
+    }));
+    const path = planLinearPath(startAngles, targetCoords, { jointLimits, ...options });
+    const duration = Math.max(path.distance / velocity, path.rotation / angularVelocity);
+    const interval = (duration * 1000) / path.waypoints.length;
+    const startTime = performance.now();
+
+    this.logger.debug(`Linear move: ${path.distance.toFixed(1)}mm, ${path.rotation.toFixed(1)}°, ${path.waypoints.length} waypoints over ${duration.toFixed(2)}s`);
+
+    for (const [index, waypoint] of path.waypoints.entries()) {
+      const due = startTime + (index + 1) * interval;
+
+      await abortableDelay(Math.max(0, due - performance.now()), signal);
+      await this.sendAngles(waypoint, moveSpeed, options);
+    }
+
+    const target = path.waypoints[path.waypoints.length - 1] ?? startAngles;
+
+    return this._waitForPose(async () => this.getAngles(options), target, false, options);
+  }
+
+  /**
+   * Poll the robot's pose until it matches a target
+   * @param read - Reads the current pose
+   * @param target - Target per axis; null axes are not compared
+   * @param cartesian - Whether the pose is [x, y, z, rx, ry, rz], whose rotations wrap at ±180°
+   * @param options - Tolerance, wait timeout, poll interval and abort signal
+   * @returns Promise that resolves with the first pose within tolerance
+   */
+  private async _waitForPose<T extends TJointAngles | TCartesianCoords>(
+    read: () => Promise<T>,
+    target: readonly (number | null)[],
+    cartesian: boolean,
+    options: IMotionWaitOptions,
+  ): Promise<T> {
+    const {
+      tolerance = 1,
+      waitTimeout = 15000,
+      pollInterval = 100,
+      signal,
+    } = options;
+    const deadline = Date.now() + waitTimeout;
+
+    for (;;) {
+      const pose = await read();
+      const reached = target.every((value, i) => {
+        if (value === null) {
+          return true;
+        }
+
+        const delta = (pose[i] ?? Number.NaN) - value;
+        // Rotations of 180° and -180° describe the same orientation
+        const error = cartesian && i >= 3
+          ? Math.abs((((delta % 360) + 540) % 360) - 180)
+          : Math.abs(delta);
+
+        return error <= tolerance;
+      });
+
+      if (reached) {
+        return pose;
+      }
+      if (Date.now() >= deadline) {
+        throw new MotionTimeoutError(target, pose, waitTimeout);
+      }
+
+      await abortableDelay(pollInterval, signal);
+    }
+  }
+
+  /**
+   * Start jogging a joint continuously until jogStop() is called
+   * @param jointId - Joint ID (1-6)
+   * @param direction - Jog direction (0: decreasing angle, 1: increasing angle)
+   * @param speed - Movement speed (0-100)
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async jogAngle(
+    jointId: TJointId,
+    direction: TJogDirection,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    if (jointId < 1 || jointId > 6) {
+      throw new Error('Joint ID must be between 1 and 6');
+    }
+    this._validateJog(direction, speed);
+
+    const data = [jointId, direction, speed] as const;
+
+    await this._sendCommand(COMMAND_IDS.JOG_ANGLE, data, false, options);
+  }
+
+  /**
+   * Start jogging along a cartesian axis continuously until jogStop() is called
+   * @param coord - Coordinate index (1-6: x, y, z, rx, ry, rz)
+   * @param direction - Jog direction (0: decreasing value, 1: increasing value)
+   * @param speed - Movement speed (0-100)
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async jogCoord(
+    coord: TCoordinateId,
+    direction: TJogDirection,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    if (coord < 1 || coord > 6) {
+      throw new Error('Coordinate index must be between 1 and 6');
+    }
+    this._validateJog(direction, speed);
+
+    const data = [coord, direction, speed] as const;
+
+    await this._sendCommand(COMMAND_IDS.JOG_COORD, data, false, options);
+  }
+
+  /**
+   * Stop a jog started with jogAngle() or jogCoord()
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async jogStop(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.JOG_STOP, null, false, options);
+  }
+
+  /**
+   * Move a joint by a relative step from its current angle
+   * Reads the current angles first, so the step is applied to the measured position
+   * @param jointId - Joint ID (1-6)
+   * @param step - Angle change in degrees (negative to move backwards)
+   * @param speed - Movement speed (0-100)
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async jogIncrementAngle(
+    jointId: TJointId,
+    step: number,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    if (jointId < 1 || jointId > 6) {
+      throw new Error('Joint ID must be between 1 and 6');
+    }
+
+    const angles = await this.getAngles(options);
+    const current = angles[jointId - 1] ?? 0;
+
+    await this.sendAngle(jointId, current + step, speed, options);
+  }
+
+  /**
+   * Move along a cartesian axis by a relative step from the current pose
+   * Reads the current coordinates first, so the step is applied to the measured pose
+   * @param coord - Coordinate index (1-6: x, y, z, rx, ry, rz)
+   * @param step - Change in millimetres (x, y, z) or degrees (rx, ry, rz)
+   * @param speed - Movement speed (0-100)
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async jogIncrementCoord(
+    coord: TCoordinateId,
+    step: number,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    if (coord < 1 || coord > 6) {
+      throw new Error('Coordinate index must be between 1 and 6');
+    }
+
+    const coords = await this.getCoords(options);
+    const current = coords[coord - 1] ?? 0;
+
+    await this.sendCoord(coord, current + step, speed, options);
+  }
+
+  /**
+   * Validate jog direction and speed
+   * @param direction - Jog direction
+   * @param speed - Movement speed
+   */
+  private _validateJog(direction: number, speed: TMovementSpeed): void {
+    if (direction !== 0 && direction !== 1) {
+      throw new Error('Jog direction must be 0 or 1');
+    }
+    if (speed < 0 || speed > 100) {
+      throw new Error('Speed must be between 0 and 100');
+    }
   }
 
   /**
    * Pause current movement
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async pause(): Promise<void> {
-    await this._sendCommand(COMMAND_IDS.PAUSE);
+  async pause(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.PAUSE, null, false, options);
   }
 
   /**
    * Resume paused movement
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async resume(): Promise<void> {
-    await this._sendCommand(COMMAND_IDS.RESUME);
+  async resume(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.RESUME, null, false, options);
   }
 
   /**
    * Stop current movement
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async stop(): Promise<void> {
-    await this._sendCommand(COMMAND_IDS.STOP);
+  async stop(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.STOP, null, false, options);
   }
 
   /**
    * Check if robot is currently moving
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with movement status
    */
-  async isMoving(): Promise<boolean> {
-    return this._sendCommand<boolean>(COMMAND_IDS.IS_MOVING, null, true);
+  async isMoving(options: ICommandOptions = {}): Promise<boolean> {
+    return this._sendCommand<boolean>(COMMAND_IDS.IS_MOVING, null, true, options);
   }
 
   /**
    * Check if robot is in target position
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with position status
    */
-  async isInPosition(): Promise<boolean> {
-    return this._sendCommand<boolean>(COMMAND_IDS.IS_IN_POSITION, null, true);
+  async isInPosition(options: ICommandOptions = {}): Promise<boolean> {
+    return this._sendCommand<boolean>(COMMAND_IDS.IS_IN_POSITION, null, true, options);
   }
 
   /**
    * Set gripper state
    * @param state - Gripper state (0: open, 1: close)
    * @param speed - Gripper speed (0-100)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async setGripperState(state: TGripperState, speed: TMovementSpeed): Promise<void> {
+  async setGripperState(
+    state: TGripperState,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
     if (state !== 0 && state !== 1) {
       throw new Error('Gripper state must be 0 (open) or 1 (close)');
     }
@@ -783,98 +2110,332 @@ export class MyCobotController {
     }
 
     const data = [state, speed] as const;
-    
-    await this._sendCommand(COMMAND_IDS.SET_GRIPPER_STATE, data);
+
+    await this._sendCommand(COMMAND_IDS.SET_GRIPPER_STATE, data, false, options);
   }
 
   /**
    * Set gripper value (position)
    * @param value - Gripper position value
    * @param speed - Gripper speed (0-100)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async setGripperValue(value: number, speed: TMovementSpeed): Promise<void> {
+  async setGripperValue(
+    value: number,
+    speed: TMovementSpeed,
+    options: ICommandOptions = {},
+  ): Promise<void> {
     if (speed < 0 || speed > 100) {
       throw new Error('Speed must be between 0 and 100');
     }
 
     const data = [value, speed] as const;
-    
-    await this._sendCommand(COMMAND_IDS.SET_GRIPPER_VALUE, data);
+
+    await this._sendCommand(COMMAND_IDS.SET_GRIPPER_VALUE, data, false, options);
   }
 
   /**
    * Initialize gripper
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async setGripperIni(): Promise<void> {
-    await this._sendCommand(COMMAND_IDS.SET_GRIPPER_INI);
+  async setGripperIni(options: ICommandOptions = {}): Promise<void> {
+    await this._sendCommand(COMMAND_IDS.SET_GRIPPER_INI, null, false, options);
   }
 
   /**
    * Get current gripper value
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with gripper position value
    */
-  async getGripperValue(): Promise<number> {
-    return this._sendCommand<number>(COMMAND_IDS.GET_GRIPPER_VALUE, null, true);
+  async getGripperValue(options: ICommandOptions = {}): Promise<number> {
+    return this._sendCommand<number>(COMMAND_IDS.GET_GRIPPER_VALUE, null, true, options);
   }
 
   /**
    * Check if gripper is moving
+   * @param options - Per-call options (timeout, abort signal)
    * @returns Promise that resolves with movement status
    */
-  async isGripperMoving(): Promise<TGripperMovementStatus> {
-    return this._sendCommand<TGripperMovementStatus>(COMMAND_IDS.IS_GRIPPER_MOVING, null, true);
+  async isGripperMoving(options: ICommandOptions = {}): Promise<TGripperMovementStatus> {
+    return this._sendCommand<TGripperMovementStatus>(
+      COMMAND_IDS.IS_GRIPPER_MOVING,
+      null,
+      true,
+      options,
+    );
   }
 
   /**
-   * Get encoder value for a specific joint
-   * @param jointId - Joint ID (1-6)
-   * @returns Promise that resolves with encoder value
+   * Set the color of the LED matrix on the ATOM end board
+   * @param r - Red (0-255)
+   * @param g - Green (0-255)
+   * @param b - Blue (0-255)
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
    */
-  async getEncoder(jointId: TJointId): Promise<TEncoderValue> {
-    if (jointId < 1 || jointId > 6) {
-      throw new Error('Joint ID must be between 1 and 6');
+  async setColor(r: number, g: number, b: number, options: ICommandOptions = {}): Promise<void> {
+    this._assertByte(r, 'Red');
+    this._assertByte(g, 'Green');
+    this._assertByte(b, 'Blue');
+
+    await this._sendCommand(COMMAND_IDS.SET_COLOR, [r, g, b], false, options);
+  }
+
+  /**
+   * Configure an ATOM pin as input or output
+   * @param pin - Pin number
+   * @param mode - Pin mode from PIN_MODES
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setPinMode(pin: number, mode: TPinMode, options: ICommandOptions = {}): Promise<void> {
+    this._assertByte(pin, 'Pin number');
+    if (mode !== 0 && mode !== 1 && mode !== 2) {
+      throw new Error('Pin mode must be 0 (input), 1 (output) or 2 (input pull-up)');
+    }
+
+    await this._sendCommand(COMMAND_IDS.SET_PIN_MODE, [pin, mode], false, options);
+  }
+
+  /**
+   * Drive an ATOM output pin
+   * @param pin - Pin number
+   * @param signal - Output level (0: low, 1: high)
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setDigitalOutput(
+    pin: number,
+    signal: TPinSignal,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    this._assertByte(pin, 'Pin number');
+    this._assertPinSignal(signal);
+
+    await this._sendCommand(COMMAND_IDS.SET_DIGITAL_OUTPUT, [pin, signal], false, options);
+  }
+
+  /**
+   * Read an ATOM input pin
+   * @param pin - Pin number
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with the input level (0: low, 1: high)
+   */
+  async getDigitalInput(pin: number, options: ICommandOptions = {}): Promise<TPinSignal> {
+    this._assertByte(pin, 'Pin number');
+
+    const signal = await this._sendCommand<number>(
+      COMMAND_IDS.GET_DIGITAL_INPUT,
+      [pin],
+      true,
+      options,
+    );
+
+    return signal === 0 ? 0 : 1;
+  }
+
+  /**
+   * Output a PWM signal on an ATOM channel
+   * @param channel - PWM channel
+   * @param frequency - Frequency in hertz (1-65535)
+   * @param dutyCycle - Duty cycle (0-255, where 255 is always high)
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setPwmOutput(
+    channel: number,
+    frequency: number,
+    dutyCycle: number,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    this._assertByte(channel, 'PWM channel');
+    this._assertByte(dutyCycle, 'Duty cycle');
+    if (!Number.isInteger(frequency) || frequency < 1 || frequency > 0xFFFF) {
+      throw new Error('PWM frequency must be an integer between 1 and 65535');
     }
 
-    return this._sendCommand<TEncoderValue>(COMMAND_IDS.GET_ENCODER, [jointId], true);
+    await this._sendCommand(
+      COMMAND_IDS.SET_PWM_OUTPUT,
+      [channel, frequency, dutyCycle],
+      false,
+      options,
+    );
+  }
+
+  /**
+   * Drive an output pin of the M5Stack Basic base board
+   * @param pin - Pin number
+   * @param signal - Output level (0: low, 1: high)
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async setBasicOutput(
+    pin: number,
+    signal: TPinSignal,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    this._assertByte(pin, 'Pin number');
+    this._assertPinSignal(signal);
+
+    await this._sendCommand(COMMAND_IDS.SET_BASIC_OUTPUT, [pin, signal], false, options);
+  }
+
+  /**
+   * Read an input pin of the M5Stack Basic base board
+   * @param pin - Pin number
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with the input level (0: low, 1: high)
+   */
+  async getBasicInput(pin: number, options: ICommandOptions = {}): Promise<TPinSignal> {
+    this._assertByte(pin, 'Pin number');
+
+    const signal = await this._sendCommand<number>(
+      COMMAND_IDS.GET_BASIC_INPUT,
+      [pin],
+      true,
+      options,
+    );
+
+    return signal === 0 ? 0 : 1;
+  }
+
+  /**
+   * Throw if a value does not fit in one protocol byte
+   * @param value - Value to check
+   * @param name - Name used in the error message
+   */
+  private _assertByte(value: number, name: string): void {
+    if (!Number.isInteger(value) || value < 0 || value > 255) {
+      throw new Error(`${name} must be an integer between 0 and 255`);
+    }
+  }
+
+  /**
+   * Throw if a pin signal is not 0 or 1
+   * @param signal - Signal to check
+   */
+  private _assertPinSignal(signal: number): void {
+    if (signal !== 0 && signal !== 1) {
+      throw new Error('Pin signal must be 0 (low) or 1 (high)');
+    }
+  }
+
+  /**
+   * Get the raw encoder count of a specific joint
+   * @param jointId - Joint ID (1-6)
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with the encoder count (0-4095, 2048 at 0°)
+   */
+  async getEncoder(jointId: TJointId, options: ICommandOptions = {}): Promise<TEncoderValue> {
+    this._assertJointId(jointId);
+
+    return this._sendCommand<TEncoderValue>(COMMAND_IDS.GET_ENCODER, [jointId], true, options);
   }
 
   /**
-   * Get encoder values for all joints
-   * @returns Promise that resolves with array of 6 encoder values
+   * Get the raw encoder counts of all joints
+   * @param options - Per-call options (timeout, abort signal)
+   * @returns Promise that resolves with 6 encoder counts (0-4095, 2048 at 0°)
    */
-  async getEncoders(): Promise<TEncoderValues> {
-    return this._sendCommand<TEncoderValues>(COMMAND_IDS.GET_ENCODERS, null, true);
+  async getEncoders(options: ICommandOptions = {}): Promise<TEncoderValues> {
+    const counts = await this._sendCommand<number[]>(COMMAND_IDS.GET_ENCODERS, null, true, options);
+
+    if (counts.length !== 6) {
+      throw new Error(`Expected 6 encoder values, received ${counts.length}`);
+    }
+
+    return counts as unknown as TEncoderValues;
   }
 
   /**
-   * Set encoder value for a specific joint
+   * Move a joint to a raw encoder count
    * @param jointId - Joint ID (1-6)
-   * @param value - Encoder value
+   * @param value - Encoder count (0-4095, 2048 at 0°)
+   * @param speed - Movement speed (0-100, default: 50)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async setEncoder(jointId: TJointId, value: number): Promise<void> {
-    if (jointId < 1 || jointId > 6) {
-      throw new Error('Joint ID must be between 1 and 6');
+  async setEncoder(
+    jointId: TJointId,
+    value: number,
+    speed: TMovementSpeed = 50,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    this._assertJointId(jointId);
+    this._assertEncoder(value);
+    if (speed < 0 || speed > 100) {
+      throw new Error('Speed must be between 0 and 100');
     }
 
-    const data = [jointId, value] as const;
-    
-    await this._sendCommand(COMMAND_IDS.SET_ENCODER, data);
+    const data = [jointId, value, speed] as const;
+
+    await this._sendCommand(COMMAND_IDS.SET_ENCODER, data, false, options);
   }
 
   /**
-   * Set encoder values for all joints
-   * @param encoders - Array of 6 encoder values
+   * Move all joints to raw encoder counts at a common speed
+   * @param encoders - Array of 6 encoder counts (0-4095, 2048 at 0°)
+   * @param speed - Movement speed (0-100, default: 50)
+   * @param options - Per-call options (e.g., abort signal)
    * @returns Promise that resolves when command is sent
    */
-  async setEncoders(encoders: TEncoderValues): Promise<void> {
+  async setEncoders(
+    encoders: TEncoderValues,
+    speed: TMovementSpeed = 50,
+    options: ICommandOptions = {},
+  ): Promise<void> {
     if (encoders.length !== 6) {
       throw new Error('Encoders must be an array of exactly 6 numbers');
     }
+    encoders.forEach((value) => this._assertEncoder(value));
+    if (speed < 0 || speed > 100) {
+      throw new Error('Speed must be between 0 and 100');
+    }
 
-    await this._sendCommand(COMMAND_IDS.SET_ENCODERS, encoders);
+    await this._sendCommand(COMMAND_IDS.SET_ENCODERS, [...encoders, speed], false, options);
+  }
+
+  /**
+   * Move all joints to raw encoder counts, each at its own speed
+   * Giving slower joints proportionally lower speeds makes all joints arrive together
+   * @param encoders - Array of 6 encoder counts (0-4095, 2048 at 0°)
+   * @param speeds - Array of 6 joint speeds in encoder counts per second
+   * @param options - Per-call options (e.g., abort signal)
+   * @returns Promise that resolves when command is sent
+   */
+  async sendEncodersWithSpeeds(
+    encoders: TEncoderValues,
+    speeds: TEncoderValues,
+    options: ICommandOptions = {},
+  ): Promise<void> {
+    if (encoders.length !== 6 || speeds.length !== 6) {
+      throw new Error('Encoders and speeds must be arrays of exactly 6 numbers');
+    }
+    encoders.forEach((value) => this._assertEncoder(value));
+    speeds.forEach((speed) => {
+      if (!Number.isInteger(speed) || speed < 0 || speed > 0x7FFF) {
+        throw new Error('Encoder speeds must be integers between 0 and 32767');
+      }
+    });
+
+    await this._sendCommand(
+      COMMAND_IDS.SET_ENCODERS_DRAG,
+      [...encoders, ...speeds],
+      false,
+      options,
+    );
+  }
+
+  /**
+   * Throw if a value is not a valid encoder count
+   * @param value - Encoder count
+   */
+  private _assertEncoder(value: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= ENCODER_RESOLUTION) {
+      throw new Error(`Encoder values must be integers between 0 and ${ENCODER_RESOLUTION - 1}`);
+    }
   }
 }
 
@@ -0,0 +1,949 @@
+import { EventEmitter } from 'events';
+import { performance } from 'perf_hooks';
+import {
+  COMMAND_IDS,
+  COORD_SCALES,
+  MYCOBOT_280_JOINT_LIMITS,
+  PIN_MODES,
+  type TCommandId,
+  type TJointAngles,
+  type TCartesianCoords,
+} from './command-ids.js';
+import { degreesToEncoder, encoderToDegrees, ENCODER_RESOLUTION } from './encoders.js';
+import { forwardKinematics, inverseKinematics } from './kinematics.js';
+import { FrameParser, encodeFrame, type IFrame } from './protocol-codec.js';
+import { SERVO_REGISTERS, WIDE_SERVO_REGISTERS } from './servo-registers.js';
+import type { ITransport, ITransportEvents } from './transport.js';
+
+/**
+ * Configuration options for MyCobotSimulator
+ */
+export interface IMyCobotSimulatorOptions {
+  /** Firmware version reported by SOFTWARE_VERSION (default: 1) */
+  readonly firmwareVersion?: number;
+  /** Initial joint angles in degrees (default: all zeros) */
+  readonly initialAngles?: TJointAngles;
+  /**
+   * Initial pose as [x, y, z, rx, ry, rz]; the joints start at its inverse kinematics
+   * solution nearest initialAngles
+   */
+  readonly initialCoords?: TCartesianCoords;
+  /** Whether servos start powered on (default: true) */
+  readonly poweredOn?: boolean;
+  /** Joint velocity at speed 100 in degrees per second (default: 160) */
+  readonly maxJointSpeed?: number;
+  /** Cartesian velocity at speed 100 in millimetres (or degrees) per second (default: 200) */
+  readonly maxLinearSpeed?: number;
+  /** Simulation step in milliseconds when ticking automatically (default: 20) */
+  readonly tickInterval?: number;
+  /** Advance the simulation on a timer while open (default: true) */
+  readonly autoTick?: boolean;
+  /** Delay before a response frame is delivered, in milliseconds (default: 2) */
+  readonly responseDelay?: number;
+}
+
+/**
+ * Snapshot of the simulated robot state
+ */
+export interface ISimulatorState {
+  /** Current joint angles in degrees */
+  readonly angles: TJointAngles;
+  /** Joint targets in degrees */
+  readonly targetAngles: TJointAngles;
+  /** Current cartesian coordinates, computed from the joint angles */
+  readonly coords: TCartesianCoords;
+  /** Global movement speed (0-100) */
+  readonly speed: number;
+  /** Current gripper value (0-100) */
+  readonly gripperValue: number;
+  /** Whether servo power is on */
+  readonly poweredOn: boolean;
+  /** Per-joint servo enable state */
+  readonly servoEnabled: readonly boolean[];
+  /** Whether motion is paused */
+  readonly paused: boolean;
+  /** Whether free-move mode is on */
+  readonly freeMode: boolean;
+  /** Whether any joint, coordinate or the gripper is still moving */
+  readonly moving: boolean;
+  /** ATOM LED color as [r, g, b] */
+  readonly ledColor: readonly [number, number, number];
+  /** Levels of the ATOM output pins, keyed by pin number */
+  readonly digitalOutputs: ReadonlyMap<number, number>;
+  /** PWM signals on the ATOM channels, keyed by channel */
+  readonly pwmOutputs: ReadonlyMap<number, ISimulatedPwmOutput>;
+  /** Levels of the Basic board output pins, keyed by pin number */
+  readonly basicOutputs: ReadonlyMap<number, number>;
+}
+
+/**
+ * PWM signal driven on a simulated channel
+ */
+export interface ISimulatedPwmOutput {
+  /** Frequency in hertz */
+  readonly frequency: number;
+  /** Duty cycle (0-255) */
+  readonly dutyCycle: number;
+}
+
+/**
+ * Simulated health readings of a servo
+ */
+export interface ISimulatedServoHealth {
+  /** Supply voltage in volts */
+  readonly voltage: number;
+  /** Temperature in degrees Celsius */
+  readonly temperature: number;
+  /** Current draw in milliamps */
+  readonly current: number;
+  /** Raw status byte (0 when healthy) */
+  readonly status: number;
+}
+
+/** Positions closer than this are considered reached */
+const POSITION_EPSILON = 1e-3;
+/** Factory values of the servo registers */
+const DEFAULT_SERVO_DATA: ReadonlyMap<number, number> = new Map<number, number>([
+  [SERVO_REGISTERS.MAX_TEMPERATURE, 70],
+  [SERVO_REGISTERS.MAX_VOLTAGE, 140],
+  [SERVO_REGISTERS.MIN_VOLTAGE, 40],
+  [SERVO_REGISTERS.P_GAIN, 32],
+  [SERVO_REGISTERS.D_GAIN, 32],
+  [SERVO_REGISTERS.I_GAIN, 0],
+  [SERVO_REGISTERS.MIN_STARTUP_FORCE, 16],
+  [SERVO_REGISTERS.CW_DEAD_ZONE, 1],
+  [SERVO_REGISTERS.CCW_DEAD_ZONE, 1],
+  [SERVO_REGISTERS.PROTECTION_CURRENT, 500],
+  [SERVO_REGISTERS.PROTECTIVE_TORQUE, 20],
+  [SERVO_REGISTERS.PROTECTION_TIME, 200],
+  [SERVO_REGISTERS.OVERLOAD_TORQUE, 80],
+  [SERVO_REGISTERS.ACCELERATION, 0],
+  [SERVO_REGISTERS.MAX_SPEED, 0],
+]);
+/** Distance a continuous cartesian jog runs toward, in millimetres (or degrees) */
+const JOG_COORD_DISTANCE = 500;
+/** Shortest cartesian jog worth starting, in millimetres (or degrees) */
+const MIN_JOG_COORD_DISTANCE = 0.5;
+
+/**
+ * MyCobot Simulator Class
+ * In-process virtual myCobot 280 that parses the real serial frames and
+ * answers them like the firmware does, moving joints toward their targets over time
+ * The cartesian pose is computed from the joints with forwardKinematics(), and cartesian
+ * targets are solved into joint targets with inverseKinematics()
+ */
+export class MyCobotSimulator {
+  private readonly firmwareVersion: number;
+  private readonly maxJointSpeed: number;
+  private readonly maxLinearSpeed: number;
+  private readonly tickInterval: number;
+  private readonly autoTick: boolean;
+  private readonly responseDelay: number;
+
+  private angles: number[];
+  private targetAngles: number[];
+  private readonly jointSpeeds = new Array<number>(6).fill(0);
+  private speed = 50;
+  private gripperValue = 100;
+  private targetGripperValue = 100;
+  private gripperSpeed = 0;
+  private poweredOn: boolean;
+  private readonly servoEnabled: boolean[];
+  private readonly jointMinAngles = MYCOBOT_280_JOINT_LIMITS.map((limit) => limit.min);
+  private readonly jointMaxAngles = MYCOBOT_280_JOINT_LIMITS.map((limit) => limit.max);
+  private readonly servoHealth: ISimulatedServoHealth[] = Array.from({ length: 6 }, () => ({
+    voltage: 8,
+    temperature: 32,
+    current: 0,
+    status: 0,
+  }));
+
+  private readonly servoData = Array.from({ length: 6 }, () => new Map(DEFAULT_SERVO_DATA));
+  private errorCode = 0;
+  private paused = false;
+  private freeMode = false;
+  private ledColor: [number, number, number] = [0, 0, 0];
+  private readonly pinModes = new Map<number, number>();
+  private readonly digitalOutputs = new Map<number, number>();
+  private readonly digitalInputs = new Map<number, number>();
+  private readonly pwmOutputs = new Map<number, ISimulatedPwmOutput>();
+  private readonly basicOutputs = new Map<number, number>();
+  private readonly basicInputs = new Map<number, number>();
+
+  private readonly parser = new FrameParser();
+  private readonly listeners = new Set<(data: Buffer) => void>();
+  private tickTimer: NodeJS.Timeout | null = null;
+  private lastTick = 0;
+
+  /**
+   * Creates a new simulated robot
+   * @param options - Simulator configuration
+   */
+  constructor(options: IMyCobotSimulatorOptions = {}) {
+    this.firmwareVersion = options.firmwareVersion ?? 1;
+    this.maxJointSpeed = options.maxJointSpeed ?? 160;
+    this.maxLinearSpeed = options.maxLinearSpeed ?? 200;
+    this.tickInterval = options.tickInterval ?? 20;
+    this.autoTick = options.autoTick ?? true;
+    this.responseDelay = options.responseDelay ?? 2;
+
+    this.angles = [...(options.initialAngles ?? [0, 0, 0, 0, 0, 0])];
+    if (options.initialCoords) {
+      const result = inverseKinematics(options.initialCoords, options.initialAngles);
+
+      if (!result.reachable) {
+        throw new Error(`Initial coordinates are unreachable (${result.reason})`);
+      }
+      this.angles = [...(result.solutions[0] ?? this.angles)];
+    }
+    this.targetAngles = [...this.angles];
+    this.poweredOn = options.poweredOn ?? true;
+    this.servoEnabled = new Array<boolean>(6).fill(this.poweredOn);
+
+    this.parser.on('frame', (frame: IFrame) => {
+      this._handleCommand(frame.commandId, frame.payload);
+    });
+  }
+
+  /**
+   * Get a snapshot of the simulated state
+   * @returns Current state
+   */
+  getState(): ISimulatorState {
+    return {
+      angles: [...this.angles] as unknown as TJointAngles,
+      targetAngles: [...this.targetAngles] as unknown as TJointAngles,
+      coords: this._coordsOf(this.angles),
+      speed: this.speed,
+      gripperValue: this.gripperValue,
+      poweredOn: this.poweredOn,
+      servoEnabled: [...this.servoEnabled],
+      paused: this.paused,
+      freeMode: this.freeMode,
+      moving: this._isMoving(),
+      ledColor: [...this.ledColor],
+      digitalOutputs: new Map(this.digitalOutputs),
+      pwmOutputs: new Map(this.pwmOutputs),
+      basicOutputs: new Map(this.basicOutputs),
+    };
+  }
+
+  /**
+   * Set the level an ATOM input pin reads, e.g. to simulate a part-present sensor
+   * Pins configured as outputs read back their output level instead
+   * @param pin - Pin number
+   * @param signal - Input level (0: low, 1: high)
+   */
+  setDigitalInput(pin: number, signal: 0 | 1): void {
+    this.digitalInputs.set(pin, signal);
+  }
+
+  /**
+   * Set the level an input pin of the Basic board reads
+   * @param pin - Pin number
+   * @param signal - Input level (0: low, 1: high)
+   */
+  setBasicInput(pin: number, signal: 0 | 1): void {
+    this.basicInputs.set(pin, signal);
+  }
+
+  /**
+   * Override the health readings of a servo, e.g. to simulate an overheating joint
+   * @param jointId - Joint ID (1-6)
+   * @param health - Readings to change
+   */
+  setServoHealth(jointId: number, health: Partial<ISimulatedServoHealth>): void {
+    const current = this.servoHealth[jointId - 1];
+
+    if (!current) {
+      throw new Error('Joint ID must be between 1 and 6');
+    }
+
+    this.servoHealth[jointId - 1] = { ...current, ...health };
+  }
+
+  /**
+   * Move released joints by hand, as an operator would during teaching
+   * Joints whose servo is enabled hold their position and ignore the request,
+   * unless free-move mode is on
+   * @param angles - New joint angles in degrees
+   */
+  moveByHand(angles: TJointAngles): void {
+    for (let i = 0; i < 6; i += 1) {
+      const angle = angles[i];
+
+      if (typeof angle === 'number' && (this.freeMode || this.servoEnabled[i] !== true)) {
+        this.angles[i] = angle;
+        this.targetAngles[i] = angle;
+      }
+    }
+  }
+
+  /**
+   * Advance the simulation by a fixed amount of time
+   * @param ms - Simulated time in milliseconds
+   */
+  advance(ms: number): void {
+    if (ms <= 0 || this.paused) {
+      return;
+    }
+
+    const seconds = ms / 1000;
+
+    for (let i = 0; i < 6; i += 1) {
+      if (this.poweredOn && this.servoEnabled[i] === true) {
+        this.angles[i] = this._approach(
+          this.angles[i] ?? 0,
+          this.targetAngles[i] ?? 0,
+          (this.jointSpeeds[i] ?? 0) * seconds,
+        );
+      }
+    }
+
+    this.gripperValue = this._approach(
+      this.gripperValue,
+      this.targetGripperValue,
+      this.gripperSpeed * seconds,
+    );
+  }
+
+  /**
+   * Feed raw bytes written by the host into the simulator
+   * @param data - Bytes as written to the serial port
+   */
+  receive(data: Buffer): void {
+    this.parser.push(data);
+  }
+
+  /**
+   * Register a listener for bytes the simulated robot sends back
+   * @param listener - Callback receiving response bytes
+   * @returns Function that removes the listener
+   */
+  onOutput(listener: (data: Buffer) => void): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start advancing the simulation on a timer (no-op when autoTick is disabled)
+   */
+  start(): void {
+    if (!this.autoTick || this.tickTimer) {
+      return;
+    }
+
+    this.lastTick = performance.now();
+    this.tickTimer = setInterval(() => {
+      const now = performance.now();
+
+      this.advance(now - this.lastTick);
+      this.lastTick = now;
+    }, this.tickInterval);
+    this.tickTimer.unref();
+  }
+
+  /**
+   * Stop the simulation timer
+   */
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  /**
+   * Execute a decoded command frame
+   * @param commandId - Command ID
+   * @param payload - Command payload
+   */
+  private _handleCommand(commandId: TCommandId, payload: Buffer): void {
+    switch (commandId) {
+      case COMMAND_IDS.SOFTWARE_VERSION:
+        this._respond(commandId, Buffer.from([this.firmwareVersion]));
+        break;
+      case COMMAND_IDS.POWER_ON:
+        this.poweredOn = true;
+        this.servoEnabled.fill(true);
+        this._holdPosition();
+        break;
+      case COMMAND_IDS.POWER_OFF:
+        this.poweredOn = false;
+        this.servoEnabled.fill(false);
+        this._holdPosition();
+        break;
+      case COMMAND_IDS.IS_POWER_ON:
+        this._respondFlag(commandId, this.poweredOn);
+        break;
+      case COMMAND_IDS.RELEASE_ALL_SERVOS:
+        this.servoEnabled.fill(false);
+        this._holdPosition();
+        break;
+      case COMMAND_IDS.SET_FREE_MODE:
+        this.freeMode = payload[0] === 1;
+        this._holdPosition();
+        break;
+      case COMMAND_IDS.IS_FREE_MODE:
+        this._respondFlag(commandId, this.freeMode);
+        break;
+      case COMMAND_IDS.IS_SERVO_ENABLE:
+        this._respondFlag(commandId, this.servoEnabled[(payload[0] ?? 0) - 1] ?? false);
+        break;
+      case COMMAND_IDS.RELEASE_SERVO:
+      case COMMAND_IDS.FOCUS_SERVO: {
+        const index = (payload[0] ?? 0) - 1;
+
+        if (index >= 0 && index < 6) {
+          this.servoEnabled[index] = commandId === COMMAND_IDS.FOCUS_SERVO;
+          this.targetAngles[index] = this.angles[index] ?? 0;
+        }
+        break;
+      }
+      case COMMAND_IDS.GET_SPEED:
+        this._respond(commandId, Buffer.from([this.speed]));
+        break;
+      case COMMAND_IDS.SET_SPEED:
+        this.speed = Math.min(100, payload[0] ?? this.speed);
+        break;
+      case COMMAND_IDS.GET_ANGLES:
+        this._respondInt16(commandId, this.angles.map((angle) => angle * 100));
+        break;
+      case COMMAND_IDS.SEND_ANGLES:
+        if (payload.length >= 13) {
+          for (let i = 0; i < 6; i += 1) {
+            this.targetAngles[i] = this._clampAngle(i, payload.readInt16BE(i * 2) / 100);
+          }
+          this.jointSpeeds.fill(this._jointVelocity(payload[12] ?? this.speed));
+        }
+        break;
+      case COMMAND_IDS.SEND_ANGLE:
+        if (payload.length >= 4) {
+          const index = (payload[0] ?? 0) - 1;
+
+          if (index >= 0 && index < 6) {
+            this.targetAngles[index] = this._clampAngle(index, payload.readInt16BE(1) / 100);
+            this.jointSpeeds.fill(this._jointVelocity(payload[3] ?? this.speed));
+          }
+        }
+        break;
+      case COMMAND_IDS.GET_COORDS:
+        this._respondInt16(
+          commandId,
+          this._coordsOf(this.angles).map((coord, i) => coord * (COORD_SCALES[i] ?? 100)),
+        );
+        break;
+      case COMMAND_IDS.SEND_COORDS:
+        if (payload.length >= 13) {
+          const target = COORD_SCALES.map((scale, i) => payload.readInt16BE(i * 2) / scale);
+
+          this._moveToCoords(target, payload[12] ?? this.speed);
+        }
+        break;
+      case COMMAND_IDS.SEND_COORD:
+        if (payload.length >= 4) {
+          const index = (payload[0] ?? 0) - 1;
+
+          if (index >= 0 && index < 6) {
+            const target: number[] = [...this._coordsOf(this.targetAngles)];
+
+            target[index] = payload.readInt16BE(1) / (COORD_SCALES[index] ?? 100);
+            this._moveToCoords(target, payload[3] ?? this.speed);
+          }
+        }
+        break;
+      case COMMAND_IDS.JOG_ANGLE:
+        if (payload.length >= 3) {
+          const index = (payload[0] ?? 0) - 1;
+
+          if (index >= 0 && index < 6) {
+            // A continuous jog runs until it is stopped or the joint reaches its limit
+            const edge = payload[1] === 1 ? this.jointMaxAngles[index] : this.jointMinAngles[index];
+
+            this.targetAngles[index] = edge ?? 0;
+            this.jointSpeeds.fill(this._jointVelocity(payload[2] ?? this.speed));
+          }
+        }
+        break;
+      case COMMAND_IDS.JOG_COORD:
+        if (payload.length >= 3) {
+          const index = (payload[0] ?? 0) - 1;
+
+          if (index >= 0 && index < 6) {
+            const target: number[] = [...this._coordsOf(this.angles)];
+            const current = target[index] ?? 0;
+            let distance = JOG_COORD_DISTANCE;
+
+            // A continuous jog runs until it is stopped or the arm reaches the edge
+            // of its workspace
+            while (distance >= MIN_JOG_COORD_DISTANCE) {
+              target[index] = current + (payload[1] === 1 ? distance : -distance);
+              if (this._moveToCoords(target, payload[2] ?? this.speed)) {
+                break;
+              }
+              distance /= 2;
+            }
+          }
+        }
+        break;
+      case COMMAND_IDS.JOG_STOP:
+        this._holdPosition();
+        break;
+      case COMMAND_IDS.GET_SERVO_VOLTAGES:
+        this._respond(
+          commandId,
+          Buffer.from(this.servoHealth.map((servo) => Math.round(servo.voltage * 10))),
+        );
+        break;
+      case COMMAND_IDS.GET_SERVO_TEMPS:
+        this._respond(
+          commandId,
+          Buffer.from(this.servoHealth.map((servo) => Math.round(servo.temperature))),
+        );
+        break;
+      case COMMAND_IDS.GET_SERVO_STATUS:
+        this._respond(commandId, Buffer.from(this.servoHealth.map((servo) => servo.status)));
+        break;
+      case COMMAND_IDS.GET_SERVO_CURRENTS:
+        this._respondInt16(commandId, this.servoHealth.map((servo) => servo.current));
+        break;
+      case COMMAND_IDS.GET_SERVO_DATA: {
+        const registers = this.servoData[(payload[0] ?? 0) - 1];
+        const address = payload[1] ?? 0;
+        const value = registers?.get(address) ?? 0;
+
+        if (WIDE_SERVO_REGISTERS.has(address)) {
+          this._respondInt16(commandId, [value]);
+        } else {
+          this._respond(commandId, Buffer.from([value]));
+        }
+        break;
+      }
+      case COMMAND_IDS.SET_SERVO_DATA: {
+        const registers = this.servoData[(payload[0] ?? 0) - 1];
+        const address = payload[1] ?? 0;
+
+        if (registers && payload.length >= 3) {
+          const wide = WIDE_SERVO_REGISTERS.has(address) && payload.length >= 4;
+
+          registers.set(address, wide ? payload.readUInt16BE(2) : payload[2] ?? 0);
+        }
+        break;
+      }
+      case COMMAND_IDS.SET_SERVO_CALIBRATION: {
+        const index = (payload[0] ?? 0) - 1;
+        const offset = this.angles[index];
+
+        if (offset !== undefined) {
+          this.angles[index] = 0;
+          this.targetAngles[index] = (this.targetAngles[index] ?? 0) - offset;
+        }
+        break;
+      }
+      case COMMAND_IDS.GET_ERROR_INFO:
+        this._respond(commandId, Buffer.from([this.errorCode]));
+        break;
+      case COMMAND_IDS.CLEAR_ERROR_INFO:
+        this.errorCode = 0;
+        break;
+      case COMMAND_IDS.GET_JOINT_MIN_ANGLE:
+      case COMMAND_IDS.GET_JOINT_MAX_ANGLE: {
+        const index = (payload[0] ?? 0) - 1;
+        const limits = commandId === COMMAND_IDS.GET_JOINT_MIN_ANGLE
+          ? this.jointMinAngles
+          : this.jointMaxAngles;
+
+        if (index >= 0 && index < 6) {
+          this._respondInt16(commandId, [(limits[index] ?? 0) * 100]);
+        }
+        break;
+      }
+      case COMMAND_IDS.SET_JOINT_MIN:
+      case COMMAND_IDS.SET_JOINT_MAX:
+        if (payload.length >= 3) {
+          const index = (payload[0] ?? 0) - 1;
+          const limits = commandId === COMMAND_IDS.SET_JOINT_MIN
+            ? this.jointMinAngles
+            : this.jointMaxAngles;
+
+          if (index >= 0 && index < 6) {
+            limits[index] = payload.readInt16BE(1) / 100;
+          }
+        }
+        break;
+      case COMMAND_IDS.SET_COLOR:
+        if (payload.length >= 3) {
+          this.ledColor = [payload[0] ?? 0, payload[1] ?? 0, payload[2] ?? 0];
+        }
+        break;
+      case COMMAND_IDS.SET_PIN_MODE:
+        if (payload.length >= 2) {
+          this.pinModes.set(payload[0] ?? 0, payload[1] ?? PIN_MODES.INPUT);
+        }
+        break;
+      case COMMAND_IDS.SET_DIGITAL_OUTPUT:
+        if (payload.length >= 2) {
+          this.digitalOutputs.set(payload[0] ?? 0, payload[1] ?? 0);
+        }
+        break;
+      case COMMAND_IDS.GET_DIGITAL_INPUT: {
+        const pin = payload[0] ?? 0;
+        const mode = this.pinModes.get(pin) ?? PIN_MODES.INPUT;
+        const signal = mode === PIN_MODES.OUTPUT
+          ? this.digitalOutputs.get(pin)
+          : this.digitalInputs.get(pin);
+
+        this._respond(
+          commandId,
+          Buffer.from([pin, signal ?? (mode === PIN_MODES.INPUT_PULLUP ? 1 : 0)]),
+        );
+        break;
+      }
+      case COMMAND_IDS.SET_PWM_OUTPUT:
+        if (payload.length >= 4) {
+          this.pwmOutputs.set(payload[0] ?? 0, {
+            frequency: payload.readUInt16BE(1),
+            dutyCycle: payload[3] ?? 0,
+          });
+        }
+        break;
+      case COMMAND_IDS.SET_BASIC_OUTPUT:
+        if (payload.length >= 2) {
+          this.basicOutputs.set(payload[0] ?? 0, payload[1] ?? 0);
+        }
+        break;
+      case COMMAND_IDS.GET_BASIC_INPUT: {
+        const pin = payload[0] ?? 0;
+
+        this._respond(commandId, Buffer.from([pin, this.basicInputs.get(pin) ?? 0]));
+        break;
+      }
+      case COMMAND_IDS.PAUSE:
+        this.paused = true;
+        break;
+      case COMMAND_IDS.RESUME:
+        this.paused = false;
+        break;
+      case COMMAND_IDS.STOP:
+        this.paused = false;
+        this._holdPosition();
+        break;
+      case COMMAND_IDS.IS_MOVING:
+        this._respondFlag(commandId, this._isMoving());
+        break;
+      case COMMAND_IDS.IS_IN_POSITION:
+        this._respondFlag(commandId, !this._isMoving());
+        break;
+      case COMMAND_IDS.GET_GRIPPER_VALUE:
+        this._respond(commandId, Buffer.from([Math.round(this.gripperValue)]));
+        break;
+      case COMMAND_IDS.SET_GRIPPER_STATE:
+        this.targetGripperValue = payload[0] === 1 ? 0 : 100;
+        this.gripperSpeed = this._gripperVelocity(payload[1] ?? this.speed);
+        break;
+      case COMMAND_IDS.SET_GRIPPER_VALUE:
+        this.targetGripperValue = Math.min(100, payload[0] ?? this.targetGripperValue);
+        this.gripperSpeed = this._gripperVelocity(payload[1] ?? this.speed);
+        break;
+      case COMMAND_IDS.SET_GRIPPER_INI:
+        this.gripperValue = 100;
+        this.targetGripperValue = 100;
+        break;
+      case COMMAND_IDS.IS_GRIPPER_MOVING:
+        this._respondFlag(
+          commandId,
+          Math.abs(this.gripperValue - this.targetGripperValue) > POSITION_EPSILON,
+        );
+        break;
+      case COMMAND_IDS.GET_ENCODER: {
+        const index = (payload[0] ?? 0) - 1;
+
+        this._respondInt16(commandId, [degreesToEncoder(this.angles[index] ?? 0)]);
+        break;
+      }
+      case COMMAND_IDS.GET_ENCODERS:
+        this._respondInt16(commandId, this.angles.map((angle) => degreesToEncoder(angle)));
+        break;
+      case COMMAND_IDS.SET_ENCODER:
+        if (payload.length >= 3) {
+          const index = (payload[0] ?? 0) - 1;
+
+          if (index >= 0 && index < 6) {
+            this.targetAngles[index] = encoderToDegrees(payload.readInt16BE(1));
+            this.jointSpeeds.fill(this._jointVelocity(payload[3] ?? this.speed));
+          }
+        }
+        break;
+      case COMMAND_IDS.SET_ENCODERS:
+        if (payload.length >= 12) {
+          for (let i = 0; i < 6; i += 1) {
+            this.targetAngles[i] = encoderToDegrees(payload.readInt16BE(i * 2));
+          }
+          this.jointSpeeds.fill(this._jointVelocity(payload[12] ?? this.speed));
+        }
+        break;
+      case COMMAND_IDS.SET_ENCODERS_DRAG:
+        if (payload.length >= 24) {
+          for (let i = 0; i < 6; i += 1) {
+            this.targetAngles[i] = encoderToDegrees(payload.readInt16BE(i * 2));
+            // Drag speeds are given per joint in encoder counts per second
+            this.jointSpeeds[i] = (payload.readInt16BE(12 + i * 2) * 360) / ENCODER_RESOLUTION;
+          }
+        }
+        break;
+      default:
+        // Unknown or unsupported commands are ignored, as the firmware does
+        break;
+    }
+  }
+
+  /**
+   * Freeze all targets at the current position
+   */
+  private _holdPosition(): void {
+    this.targetAngles = [...this.angles];
+  }
+
+  /**
+   * Check whether anything is still travelling toward its target
+   * @returns Movement status
+   */
+  private _isMoving(): boolean {
+    const jointsMoving = this.angles.some((angle, i) => (
+      this.poweredOn
+      && this.servoEnabled[i] === true
+      && Math.abs(angle - (this.targetAngles[i] ?? angle)) > POSITION_EPSILON
+    ));
+
+    return !this.paused && jointsMoving;
+  }
+
+  /**
+   * Cartesian pose of a set of joint angles
+   * @param angles - Joint angles in degrees
+   * @returns Pose as [x, y, z, rx, ry, rz]
+   */
+  private _coordsOf(angles: readonly number[]): TCartesianCoords {
+    return forwardKinematics(angles as unknown as TJointAngles);
+  }
+
+  /**
+   * Solve a cartesian target into joint targets, timed so that no axis moves faster
+   * than the linear velocity for the speed; the path itself is interpolated in joint space
+   * @param coords - Target pose as [x, y, z, rx, ry, rz]
+   * @param speed - Movement speed (0-100)
+   * @returns Whether the target is reachable; unreachable targets are ignored
+   */
+  private _moveToCoords(coords: readonly number[], speed: number): boolean {
+    const jointLimits = this.jointMinAngles.map((min, i) => ({
+      min,
+      max: this.jointMaxAngles[i] ?? Infinity,
+    }));
+    const result = inverseKinematics(
+      coords as unknown as TCartesianCoords,
+      this.targetAngles as unknown as TJointAngles,
+      { jointLimits },
+    );
+    const solution = result.solutions[0];
+
+    if (!result.reachable || !solution) {
+      return false;
+    }
+
+    const current = this._coordsOf(this.angles);
+    // Rotations of 180° and -180° describe the same orientation
+    const travel = Math.max(...current.map((value, i) => {
+      const delta = Math.abs((coords[i] ?? value) - value);
+      const wrapped = delta % 360;
+
+      return i >= 3 ? Math.min(wrapped, 360 - wrapped) : delta;
+    }));
+    const duration = travel / this._linearVelocity(speed);
+
+    solution.forEach((angle, i) => {
+      const distance = Math.abs(angle - (this.angles[i] ?? 0));
+
+      this.targetAngles[i] = angle;
+      this.jointSpeeds[i] = duration > 0 ? distance / duration : this._jointVelocity(speed);
+    });
+
+    return true;
+  }
+
+  /**
+   * Clamp a joint target to the joint's limits and record the error, as the firmware does
+   * @param index - Joint index (0-5)
+   * @param angle - Requested angle in degrees
+   * @returns Reachable angle in degrees
+   */
+  private _clampAngle(index: number, angle: number): number {
+    const min = this.jointMinAngles[index] ?? -Infinity;
+    const max = this.jointMaxAngles[index] ?? Infinity;
+    const clamped = Math.max(min, Math.min(max, angle));
+
+    if (clamped !== angle) {
+      // Error codes 1-6 report the joint whose limit was exceeded
+      this.errorCode = index + 1;
+    }
+
+    return clamped;
+  }
+
+  /**
+   * Move a value toward a target by at most a given step
+   * @param current - Current value
+   * @param target - Target value
+   * @param maxStep - Maximum change
+   * @returns New value
+   */
+  private _approach(current: number, target: number, maxStep: number): number {
+    const delta = target - current;
+
+    if (Math.abs(delta) <= maxStep) {
+      return target;
+    }
+
+    return current + Math.sign(delta) * maxStep;
+  }
+
+  /**
+   * Convert a 0-100 speed to joint velocity
+   * @param speed - Firmware speed value
+   * @returns Degrees per second
+   */
+  private _jointVelocity(speed: number): number {
+    return (Math.max(1, Math.min(100, speed)) / 100) * this.maxJointSpeed;
+  }
+
+  /**
+   * Convert a 0-100 speed to cartesian velocity
+   * @param speed - Firmware speed value
+   * @returns Millimetres (or degrees) per second
+   */
+  private _linearVelocity(speed: number): number {
+    return (Math.max(1, Math.min(100, speed)) / 100) * this.maxLinearSpeed;
+  }
+
+  /**
+   * Convert a 0-100 speed to gripper velocity
+   * @param speed - Firmware speed value
+   * @returns Gripper units per second
+   */
+  private _gripperVelocity(speed: number): number {
+    return Math.max(1, Math.min(100, speed)) * 2;
+  }
+
+  /**
+   * Respond with a boolean flag byte
+   * @param commandId - Command ID being answered
+   * @param flag - Flag value
+   */
+  private _respondFlag(commandId: TCommandId, flag: boolean): void {
+    this._respond(commandId, Buffer.from([flag ? 1 : 0]));
+  }
+
+  /**
+   * Respond with a list of big-endian signed 16-bit values
+   * @param commandId - Command ID being answered
+   * @param values - Values to encode (rounded)
+   */
+  private _respondInt16(commandId: TCommandId, values: readonly number[]): void {
+    const payload = Buffer.alloc(values.length * 2);
+
+    values.forEach((value, i) => {
+      payload.writeInt16BE(Math.max(-32768, Math.min(32767, Math.round(value))), i * 2);
+    });
+
+    this._respond(commandId, payload);
+  }
+
+  /**
+   * Frame a response and deliver it to output listeners
+   * @param commandId - Command ID being answered
+   * @param payload - Response payload
+   */
+  private _respond(commandId: TCommandId, payload: Buffer): void {
+    const frame = encodeFrame(commandId, payload);
+
+    setTimeout(() => {
+      this.listeners.forEach((listener) => {
+        listener(frame);
+      });
+    }, this.responseDelay);
+  }
+}
+
+/**
+ * Simulator Transport Class
+ * ITransport that connects a MyCobotController to an in-process MyCobotSimulator
+ */
+export class SimulatorTransport extends EventEmitter<ITransportEvents> implements ITransport {
+  readonly description = 'myCobot simulator';
+
+  private readonly simulator: MyCobotSimulator;
+  private detach: (() => void) | null = null;
+
+  /**
+   * Creates a transport bound to a simulator
+   * @param simulator - Simulator instance (default: a new simulator with default options)
+   */
+  constructor(simulator: MyCobotSimulator = new MyCobotSimulator()) {
+    super();
+    this.simulator = simulator;
+  }
+
+  get isOpen(): boolean {
+    return this.detach !== null;
+  }
+
+  /**
+   * Attach to the simulator and start its clock
+   * @returns Promise that resolves immediately
+   */
+  open(): Promise<void> {
+    if (!this.detach) {
+      this.detach = this.simulator.onOutput((data) => {
+        this.emit('data', data);
+      });
+      this.simulator.start();
+      this.emit('open');
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Detach from the simulator and stop its clock
+   * @returns Promise that resolves immediately
+   */
+  close(): Promise<void> {
+    if (this.detach) {
+      this.detach();
+      this.detach = null;
+      this.simulator.stop();
+      this.emit('close');
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Deliver host bytes to the simulator
+   * @param data - Bytes to send
+   * @returns Promise that resolves once the simulator has consumed the bytes
+   */
+  write(data: Buffer): Promise<void> {
+    if (!this.detach) {
+      return Promise.reject(new Error('Simulator transport is not open'));
+    }
+
+    this.simulator.receive(data);
+
+    return Promise.resolve();
+  }
+}
+
+export default MyCobotSimulator;
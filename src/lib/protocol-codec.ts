@@ -0,0 +1,264 @@
+import { EventEmitter } from 'events';
+import { PROTOCOL, type TCommandId } from './command-ids.js';
+
+/**
+ * Decoded protocol frame
+ */
+export interface IFrame {
+  /** Command ID (genre) byte */
+  readonly commandId: TCommandId;
+  /** Payload bytes between the command ID and the footer */
+  readonly payload: Buffer;
+}
+
+/**
+ * Frame parser statistics
+ */
+export interface IFrameParserStats {
+  /** Total bytes pushed into the parser */
+  readonly bytesReceived: number;
+  /** Complete, valid frames emitted */
+  readonly framesParsed: number;
+  /** Bytes discarded while searching for a frame header */
+  readonly garbageBytes: number;
+  /** Candidate frames rejected because of a bad length or missing footer */
+  readonly invalidFrames: number;
+  /** Number of times the parser had to skip ahead to find the next header */
+  readonly resyncs: number;
+}
+
+/**
+ * Events emitted by FrameParser
+ */
+export interface IFrameParserEvents {
+  /** A complete, valid frame was parsed */
+  frame: [frame: IFrame];
+  /** Bytes were discarded to find the next header */
+  resync: [discarded: Buffer];
+}
+
+/** Smallest value of the length byte: command ID + footer */
+const MIN_LENGTH_BYTE = PROTOCOL.COMMAND_ID_SIZE + PROTOCOL.FOOTER_SIZE;
+
+/** Largest payload whose length byte cannot be mistaken for a header byte */
+export const MAX_PAYLOAD_SIZE = PROTOCOL.HEADER - 1 - MIN_LENGTH_BYTE;
+
+/**
+ * Build a protocol frame: 0xFE 0xFE len cmd ...payload 0xFA
+ * @param commandId - Command ID from COMMAND_IDS
+ * @param payload - Encoded payload bytes (default: none)
+ * @returns Complete frame ready to be written to the transport
+ */
+export function encodeFrame(
+  commandId: TCommandId,
+  payload: Buffer | readonly number[] = [],
+): Buffer {
+  const data = Buffer.isBuffer(payload) ? payload : Buffer.from(payload);
+
+  if (data.length > MAX_PAYLOAD_SIZE) {
+    throw new Error(`Payload too large: ${data.length} bytes (max ${MAX_PAYLOAD_SIZE})`);
+  }
+
+  const frame = Buffer.alloc(
+    PROTOCOL.HEADER_SIZE
+      + PROTOCOL.LENGTH_SIZE
+      + PROTOCOL.COMMAND_ID_SIZE
+      + data.length
+      + PROTOCOL.FOOTER_SIZE,
+  );
+  let offset = 0;
+
+  frame.writeUInt8(PROTOCOL.HEADER, offset);
+  offset += 1;
+  frame.writeUInt8(PROTOCOL.HEADER, offset);
+  offset += 1;
+
+  // Match Python: +2 for command ID + footer
+  frame.writeUInt8(data.length + MIN_LENGTH_BYTE, offset);
+  offset += 1;
+
+  frame.writeUInt8(commandId, offset);
+  offset += 1;
+
+  data.copy(frame, offset);
+  offset += data.length;
+
+  frame.writeUInt8(PROTOCOL.FOOTER, offset);
+
+  return frame;
+}
+
+/**
+ * Frame Parser Class
+ * Incremental, transport-agnostic parser for the myCobot serial protocol
+ * Handles fragmentation, concatenated frames and line noise between frames
+ */
+export class FrameParser extends EventEmitter<IFrameParserEvents> {
+  private buffer = Buffer.alloc(0);
+  private bytesReceived = 0;
+  private framesParsed = 0;
+  private garbageBytes = 0;
+  private invalidFrames = 0;
+  private resyncs = 0;
+
+  /**
+   * Number of bytes held back waiting for the rest of a frame
+   */
+  get bufferedBytes(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Feed a chunk of received bytes into the parser
+   * @param chunk - Bytes as received from the transport
+   * @returns Frames completed by this chunk, in order
+   */
+  push(chunk: Buffer): IFrame[] {
+    const frames: IFrame[] = [];
+
+    this.bytesReceived += chunk.length;
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= PROTOCOL.HEADER_SIZE) {
+      const startIndex = this._findHeader();
+
+      if (startIndex === -1) {
+        // Keep a trailing header byte: it may be the first half of the next header
+        const keep = this.buffer[this.buffer.length - 1] === PROTOCOL.HEADER ? 1 : 0;
+
+        this._discard(this.buffer.length - keep);
+        break;
+      }
+
+      if (startIndex > 0) {
+        this._discard(startIndex);
+      }
+
+      if (this.buffer.length < PROTOCOL.HEADER_SIZE + PROTOCOL.LENGTH_SIZE) {
+        break;
+      }
+
+      const length = this.buffer[PROTOCOL.HEADER_SIZE] ?? 0;
+      const packetLength = PROTOCOL.HEADER_SIZE + PROTOCOL.LENGTH_SIZE + length;
+
+      // A third header byte means the first one was a stray: realign on the next pair
+      if (length === PROTOCOL.HEADER) {
+        this._discard(1);
+        continue;
+      }
+
+      if (length < MIN_LENGTH_BYTE) {
+        this._reject();
+        continue;
+      }
+
+      if (this.buffer.length < packetLength) {
+        break;
+      }
+
+      if (this.buffer[packetLength - 1] !== PROTOCOL.FOOTER) {
+        this._reject();
+        continue;
+      }
+
+      const frame: IFrame = {
+        commandId: this.buffer[PROTOCOL.HEADER_SIZE + PROTOCOL.LENGTH_SIZE] as TCommandId,
+        payload: Buffer.from(this.buffer.subarray(
+          PROTOCOL.HEADER_SIZE + PROTOCOL.LENGTH_SIZE + PROTOCOL.COMMAND_ID_SIZE,
+          packetLength - PROTOCOL.FOOTER_SIZE,
+        )),
+      };
+
+      this.buffer = this.buffer.subarray(packetLength);
+      this.framesParsed += 1;
+      frames.push(frame);
+      this.emit('frame', frame);
+    }
+
+    return frames;
+  }
+
+  /**
+   * Get parser statistics
+   * @returns Counters accumulated since construction or the last reset
+   */
+  getStats(): IFrameParserStats {
+    return {
+      bytesReceived: this.bytesReceived,
+      framesParsed: this.framesParsed,
+      garbageBytes: this.garbageBytes,
+      invalidFrames: this.invalidFrames,
+      resyncs: this.resyncs,
+    };
+  }
+
+  /**
+   * Drop buffered bytes and reset statistics
+   */
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+    this.bytesReceived = 0;
+    this.framesParsed = 0;
+    this.garbageBytes = 0;
+    this.invalidFrames = 0;
+    this.resyncs = 0;
+  }
+
+  /**
+   * Find the next double-header in the buffer
+   * @returns Index of the header or -1
+   */
+  private _findHeader(): number {
+    for (let i = 0; i < this.buffer.length - 1; i += 1) {
+      if (this.buffer[i] === PROTOCOL.HEADER && this.buffer[i + 1] === PROTOCOL.HEADER) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Reject the candidate frame at the start of the buffer and resynchronise
+   * on the byte after its first header byte
+   */
+  private _reject(): void {
+    this.invalidFrames += 1;
+    this._discard(1);
+  }
+
+  /**
+   * Discard bytes from the start of the buffer
+   * @param count - Number of bytes to drop
+   */
+  private _discard(count: number): void {
+    if (count <= 0) {
+      return;
+    }
+
+    const discarded = Buffer.from(this.buffer.subarray(0, count));
+
+    this.buffer = this.buffer.subarray(count);
+    this.garbageBytes += count;
+    this.resyncs += 1;
+    this.emit('resync', discarded);
+  }
+}
+
+/**
+ * Decode a single, complete frame
+ * @param frame - Bytes of exactly one frame
+ * @returns Decoded frame, or null if the bytes are not a valid frame
+ */
+export function decodeFrame(frame: Buffer): IFrame | null {
+  const parser = new FrameParser();
+  const [decoded] = parser.push(frame);
+
+  if (!decoded || parser.getStats().garbageBytes > 0 || parser.bufferedBytes > 0) {
+    return null;
+  }
+
+  return decoded;
+}
+
+export default FrameParser;
@@ -0,0 +1,364 @@
+import { EventEmitter } from 'events';
+import { performance } from 'perf_hooks';
+import type { TCommandId } from './command-ids.js';
+import { abortable, throwIfAborted } from './abort.js';
+import { AbortError, CommandTimeoutError } from './errors.js';
+import type { IFrame } from './protocol-codec.js';
+
+/**
+ * Configuration options for RequestDispatcher
+ */
+export interface IRequestDispatcherOptions {
+  /**
+   * Run one request at a time, waiting for each response before sending the next
+   * (default: false)
+   */
+  readonly serialize?: boolean;
+  /**
+   * How long a timed-out request keeps its place in line, in milliseconds (default: 1000)
+   * A response arriving in this window is reported as late instead of being handed to
+   * a newer request for the same command
+   */
+  readonly lateResponseWindow?: number;
+}
+
+/**
+ * Per-request dispatch options
+ */
+export interface IDispatchOptions {
+  /**
+   * ID of a timed-out request this one repeats (e.g., a retry)
+   * The new request takes over its place in line, so a late answer to the
+   * earlier attempt resolves this one instead of being discarded
+   */
+  readonly supersedes?: number;
+  /**
+   * Cancels the request and removes it from the queue; its response, if any,
+   * is then unsolicited
+   */
+  readonly signal?: AbortSignal | undefined;
+}
+
+/**
+ * Public information about a dispatched request
+ */
+export interface IRequestInfo {
+  /** Unique, monotonically increasing request ID */
+  readonly id: number;
+  /** Command ID the request is waiting on */
+  readonly commandId: TCommandId;
+  /** Response timeout in milliseconds */
+  readonly timeoutMs: number;
+}
+
+/**
+ * Events emitted by RequestDispatcher
+ */
+export interface IRequestDispatcherEvents {
+  /** A request did not receive its response in time */
+  timeout: [request: IRequestInfo];
+  /** A response arrived for a request that had already timed out */
+  lateResponse: [frame: IFrame, request: IRequestInfo];
+}
+
+/**
+ * Entry in a per-command FIFO
+ */
+interface IPendingRequest extends IRequestInfo {
+  readonly resolve: (payload: Buffer) => void;
+  readonly reject: (error: Error) => void;
+  timer: NodeJS.Timeout | null;
+  /** Set once the request stopped waiting: responses still owed to it are discarded until then */
+  expiresAt: number | null;
+  /** Set when a timed-out request ahead took a response that may have been this one's */
+  displaced: boolean;
+  /** Detaches the abort listener, if any */
+  cleanup: () => void;
+}
+
+/**
+ * Request Dispatcher Class
+ * Correlates responses with requests. The protocol carries no request IDs, so
+ * responses are matched strictly in send order per command ID; a request that
+ * timed out keeps its place for a while, so a late response is reported instead
+ * of being handed to the next caller
+ */
+export class RequestDispatcher extends EventEmitter<IRequestDispatcherEvents> {
+  private readonly serialize: boolean;
+  private readonly lateResponseWindow: number;
+
+  private nextId = 1;
+  private readonly queues = new Map<TCommandId, IPendingRequest[]>();
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a new dispatcher
+   * @param options - Dispatcher configuration
+   */
+  constructor(options: IRequestDispatcherOptions = {}) {
+    super();
+    this.serialize = options.serialize ?? false;
+    this.lateResponseWindow = options.lateResponseWindow ?? 1000;
+  }
+
+  /**
+   * Number of requests still waiting for a response
+   */
+  get pendingCount(): number {
+    let count = 0;
+
+    this.queues.forEach((queue) => {
+      count += queue.filter((request) => request.expiresAt === null).length;
+    });
+
+    return count;
+  }
+
+  /**
+   * Dispatch a request
+   * @param commandId - Command ID of the request
+   * @param write - Function that writes the request frame to the transport
+   * @param timeoutMs - Response timeout, or null for commands without a response
+   * @param options - Per-request dispatch options
+   * @returns Promise that resolves with the response payload (null if no response is expected)
+   */
+  async send(
+    commandId: TCommandId,
+    write: () => Promise<void>,
+    timeoutMs: number | null,
+    options: IDispatchOptions = {},
+  ): Promise<Buffer | null> {
+    if (!this.serialize) {
+      return this._dispatch(commandId, write, timeoutMs, options);
+    }
+
+    const run = this.tail.then(async () => this._dispatch(commandId, write, timeoutMs, options));
+
+    this.tail = run.catch(() => undefined);
+
+    // Reject right away on abort instead of waiting for the turn to come
+    return abortable(run, options.signal);
+  }
+
+  /**
+   * Match a received frame against outstanding requests
+   * @param frame - Received frame
+   * @returns True if the frame answered a request (pending or timed out), false if unsolicited
+   */
+  handleResponse(frame: IFrame): boolean {
+    const queue = this._prune(frame.commandId);
+    const request = queue.shift();
+
+    if (!request) {
+      return false;
+    }
+
+    if (request.expiresAt !== null) {
+      // If the timed-out request's response was lost, this was the next caller's
+      for (const item of queue) {
+        item.displaced = true;
+      }
+      this.emit('lateResponse', frame, this._info(request));
+
+      return true;
+    }
+
+    this._settle(request);
+    request.resolve(frame.payload);
+
+    return true;
+  }
+
+  /**
+   * Reject every outstanding request and forget timed-out ones
+   * @param error - Error to reject with
+   */
+  rejectAll(error: Error): void {
+    const queues = [...this.queues.values()];
+
+    this.queues.clear();
+    queues.forEach((queue) => {
+      queue.forEach((request) => {
+        this._settle(request);
+        if (request.expiresAt === null) {
+          request.reject(error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Register a request and write it
+   * @param commandId - Command ID of the request
+   * @param write - Function that writes the request frame
+   * @param timeoutMs - Response timeout, or null for commands without a response
+   * @param options - Per-request dispatch options
+   * @returns Promise that resolves with the response payload
+   */
+  private async _dispatch(
+    commandId: TCommandId,
+    write: () => Promise<void>,
+    timeoutMs: number | null,
+    options: IDispatchOptions,
+  ): Promise<Buffer | null> {
+    const { signal } = options;
+
+    throwIfAborted(signal);
+
+    if (timeoutMs === null) {
+      await write();
+
+      return null;
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const request: IPendingRequest = {
+        id: this.nextId,
+        commandId,
+        timeoutMs,
+        resolve,
+        reject,
+        timer: null,
+        expiresAt: null,
+        displaced: false,
+        cleanup: () => undefined,
+      };
+      const onAbort = (): void => {
+        this._remove(request);
+        this._settle(request);
+        reject(new AbortError(undefined, { cause: signal?.reason }));
+      };
+
+      request.cleanup = (): void => {
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      this.nextId += 1;
+      // Register before writing so a fast response cannot overtake the bookkeeping
+      this._enqueue(request, options.supersedes);
+      request.timer = setTimeout(() => {
+        request.timer = null;
+        this.emit('timeout', this._info(request));
+        this._abandon(
+          request,
+          new CommandTimeoutError(request.commandId, request.timeoutMs, request.id),
+        );
+      }, timeoutMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      write().catch((error: Error) => {
+        this._remove(request);
+        this._settle(request);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Stop waiting for a timed-out request, keeping its place in line for late responses
+   * A displaced request leaves the queue instead: its response was most likely taken
+   * by the request ahead, and waiting for it would make the next caller lose its own
+   * @param request - Request to abandon
+   * @param error - Error to reject the caller with
+   */
+  private _abandon(request: IPendingRequest, error: Error): void {
+    if (request.expiresAt !== null) {
+      return;
+    }
+
+    this._settle(request);
+    if (request.displaced) {
+      this._remove(request);
+    } else {
+      request.expiresAt = performance.now() + this.lateResponseWindow;
+    }
+    request.reject(error);
+  }
+
+  /**
+   * Release the timer and abort listener of a request
+   * @param request - Request that stopped waiting
+   */
+  private _settle(request: IPendingRequest): void {
+    if (request.timer) {
+      clearTimeout(request.timer);
+      request.timer = null;
+    }
+    request.cleanup();
+  }
+
+  /**
+   * Get the FIFO for a command, creating it if needed
+   * @param commandId - Command ID
+   * @returns Per-command queue
+   */
+  private _queue(commandId: TCommandId): IPendingRequest[] {
+    let queue = this.queues.get(commandId);
+
+    if (!queue) {
+      queue = [];
+      this.queues.set(commandId, queue);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Add a request to its command's FIFO
+   * @param request - Request to add
+   * @param supersedes - ID of a timed-out request whose place it takes over
+   */
+  private _enqueue(request: IPendingRequest, supersedes: number | undefined): void {
+    const queue = this._prune(request.commandId);
+    const index = supersedes === undefined
+      ? -1
+      : queue.findIndex((item) => item.id === supersedes && item.expiresAt !== null);
+
+    if (index >= 0) {
+      queue.splice(index, 1, request);
+
+      return;
+    }
+
+    queue.push(request);
+  }
+
+  /**
+   * Drop timed-out requests whose late-response window has passed
+   * @param commandId - Command ID
+   * @returns Per-command queue after pruning
+   */
+  private _prune(commandId: TCommandId): IPendingRequest[] {
+    const now = performance.now();
+    const queue = this._queue(commandId)
+      .filter((request) => request.expiresAt === null || request.expiresAt > now);
+
+    this.queues.set(commandId, queue);
+
+    return queue;
+  }
+
+  /**
+   * Remove a specific request from its queue
+   * @param request - Request to remove
+   */
+  private _remove(request: IPendingRequest): void {
+    const queue = this._queue(request.commandId);
+    const index = queue.indexOf(request);
+
+    if (index >= 0) {
+      queue.splice(index, 1);
+    }
+  }
+
+  /**
+   * Strip callbacks from a request for event consumers
+   * @param request - Internal request
+   * @returns Public request information
+   */
+  private _info(request: IPendingRequest): IRequestInfo {
+    return { id: request.id, commandId: request.commandId, timeoutMs: request.timeoutMs };
+  }
+}
+
+export default RequestDispatcher;
@@ -0,0 +1,139 @@
+import { COMMAND_IDS, type TCommandId, type TCommandName } from './command-ids.js';
+
+/**
+ * Retry configuration for commands that time out
+ */
+export interface IRetryOptions {
+  /** Total attempts per command, including the first (default: 3) */
+  readonly attempts?: number;
+  /** Base delay between attempts in milliseconds (default: 100) */
+  readonly delay?: number;
+  /** Random extra delay of up to this many milliseconds added to each wait (default: 50) */
+  readonly jitter?: number;
+  /** Commands that are safe to repeat (default: DEFAULT_IDEMPOTENT_COMMANDS) */
+  readonly idempotentCommands?: readonly TCommandName[];
+}
+
+/**
+ * Read-only queries: repeating them cannot change the robot state
+ */
+export const DEFAULT_IDEMPOTENT_COMMANDS: readonly TCommandName[] = [
+  'SOFTWARE_VERSION',
+  'GET_ANGLES',
+  'GET_COORDS',
+  'IS_IN_POSITION',
+  'IS_MOVING',
+  'IS_POWER_ON',
+  'IS_FREE_MODE',
+  'IS_SERVO_ENABLE',
+  'GET_SPEED',
+  'GET_JOINT_MIN_ANGLE',
+  'GET_JOINT_MAX_ANGLE',
+  'GET_GRIPPER_VALUE',
+  'IS_GRIPPER_MOVING',
+  'GET_ENCODER',
+  'GET_ENCODERS',
+  'GET_ERROR_INFO',
+  'GET_SERVO_CURRENTS',
+  'GET_SERVO_VOLTAGES',
+  'GET_SERVO_STATUS',
+  'GET_SERVO_TEMPS',
+  'GET_DIGITAL_INPUT',
+  'GET_BASIC_INPUT',
+  'GET_SERVO_DATA',
+];
+
+/**
+ * Commands that move the arm or gripper: never retried automatically, since a
+ * repeated frame can re-trigger a motion the robot already started
+ */
+export const MOTION_COMMANDS: readonly TCommandName[] = [
+  'SEND_ANGLES',
+  'SEND_ANGLE',
+  'SEND_COORD',
+  'SEND_COORDS',
+  'JOG_ANGLE',
+  'JOG_COORD',
+  'JOG_STOP',
+  'SET_ENCODER',
+  'SET_ENCODERS',
+  'SET_ENCODERS_DRAG',
+  'SET_GRIPPER_STATE',
+  'SET_GRIPPER_VALUE',
+  'SET_GRIPPER_INI',
+  'POWER_ON',
+  'POWER_OFF',
+  'RELEASE_ALL_SERVOS',
+  'RELEASE_SERVO',
+  'FOCUS_SERVO',
+  'PAUSE',
+  'RESUME',
+  'STOP',
+];
+
+/**
+ * Retry Policy Class
+ * Decides which timed-out commands may be repeated and how long to wait in between
+ */
+export class RetryPolicy {
+  readonly attempts: number;
+
+  private readonly delay: number;
+  private readonly jitter: number;
+  private readonly retryable: ReadonlySet<TCommandId>;
+
+  /**
+   * Creates a retry policy
+   * @param options - Retry configuration
+   */
+  constructor(options: IRetryOptions = {}) {
+    this.attempts = options.attempts ?? 3;
+    this.delay = options.delay ?? 100;
+    this.jitter = options.jitter ?? 50;
+
+    if (!Number.isInteger(this.attempts) || this.attempts < 1) {
+      throw new Error('Retry attempts must be a positive integer');
+    }
+    if (this.delay < 0 || this.jitter < 0) {
+      throw new Error('Retry delay and jitter must not be negative');
+    }
+
+    const names = options.idempotentCommands ?? DEFAULT_IDEMPOTENT_COMMANDS;
+    const motion = names.filter((name) => MOTION_COMMANDS.includes(name));
+
+    if (motion.length > 0) {
+      throw new Error(`Motion commands cannot be retried: ${motion.join(', ')}`);
+    }
+
+    this.retryable = new Set(names.map((name) => COMMAND_IDS[name]));
+  }
+
+  /**
+   * Check whether a command is safe to retry
+   * @param commandId - Command ID
+   * @returns True if the command is idempotent under this policy
+   */
+  isRetryable(commandId: TCommandId): boolean {
+    return this.retryable.has(commandId);
+  }
+
+  /**
+   * Check whether another attempt should be made
+   * @param commandId - Command ID
+   * @param attempt - Number of the attempt that just failed, starting at 1
+   * @returns True if the command should be sent again
+   */
+  shouldRetry(commandId: TCommandId, attempt: number): boolean {
+    return this.isRetryable(commandId) && attempt < this.attempts;
+  }
+
+  /**
+   * Get the wait before the next attempt
+   * @returns Delay in milliseconds, including jitter
+   */
+  getDelay(): number {
+    return this.delay + Math.random() * this.jitter;
+  }
+}
+
+export default RetryPolicy;
@@ -0,0 +1,398 @@
+import { EventEmitter } from 'events';
+import type { TCommandId } from './command-ids.js';
+import type { IAbortOptions } from './abort.js';
+import { silentLogger, type ILogger } from './logger.js';
+import { MovementRecorder, type IMovementRecorderOptions } from './movement-recorder.js';
+import { MyCobotController, type IMyCobotControllerOptions } from './mycobot-controller.js';
+import type { ITransport } from './transport.js';
+
+/**
+ * Configuration options for RobotFleet
+ */
+export interface IRobotFleetOptions {
+  /** Logger for fleet events, also the default logger of every robot (default: silent) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Options for a robot added to the fleet
+ */
+export interface IFleetRobotOptions extends IMyCobotControllerOptions {
+  /** Options for the robot's movement recorder */
+  readonly recorder?: IMovementRecorderOptions;
+}
+
+/**
+ * A registered robot with its recorder
+ */
+export interface IFleetMember {
+  /** Name the robot was registered under */
+  readonly name: string;
+  /** Controller for the robot */
+  readonly robot: MyCobotController;
+  /** Movement recorder bound to the robot */
+  readonly recorder: MovementRecorder;
+}
+
+/**
+ * Health snapshot of a fleet member
+ */
+export interface IRobotHealth {
+  /** Name the robot was registered under */
+  readonly name: string;
+  /** Whether the robot is connected */
+  readonly connected: boolean;
+  /** Whether an automatic reconnection is in progress */
+  readonly reconnecting: boolean;
+  /** Whether the recorder is playing back a movement */
+  readonly playing: boolean;
+  /** Transport description (port path, host:port, ...) */
+  readonly transport: string;
+  /** Commands that timed out since the robot was added */
+  readonly timeouts: number;
+  /** Most recent transport or reconnection error */
+  readonly lastError: Error | null;
+  /** Epoch milliseconds of the last frame received, or null if none yet */
+  readonly lastSeen: number | null;
+}
+
+/**
+ * Outcome of a fleet-wide operation for one robot
+ */
+export type TFleetResult<T> = PromiseSettledResult<T> & { readonly name: string };
+
+/**
+ * Events emitted by RobotFleet, each tagged with the robot name
+ */
+export interface IRobotFleetEvents {
+  /** A robot was registered */
+  added: [name: string];
+  /** A robot was removed */
+  removed: [name: string];
+  /** A robot connected */
+  connect: [name: string];
+  /** A robot disconnected */
+  disconnect: [name: string];
+  /** Transport error on a robot (only emitted when an 'error' listener is registered) */
+  error: [name: string, error: Error];
+  /** A command on a robot did not receive its response in time */
+  timeout: [name: string, commandId: TCommandId, timeoutMs: number, requestId: number];
+  /** A reconnection attempt was scheduled for a robot */
+  reconnecting: [name: string, attempt: number, delayMs: number];
+  /** A robot was reconnected */
+  reconnect: [name: string, attempt: number];
+  /** Reconnection of a robot gave up */
+  reconnectFailed: [name: string, error: Error];
+}
+
+/**
+ * Internal bookkeeping for a fleet member
+ */
+interface IFleetEntry extends IFleetMember {
+  timeouts: number;
+  lastError: Error | null;
+  lastSeen: number | null;
+  /** Detaches the fleet's listeners from the controller */
+  detach: () => void;
+}
+
+/**
+ * Robot Fleet Class
+ * Manages several robots from one process: registration by name, joint
+ * connection handling, aggregated events and health, and broadcast commands
+ */
+export class RobotFleet extends EventEmitter<IRobotFleetEvents> {
+  private readonly logger: ILogger;
+  private readonly entries = new Map<string, IFleetEntry>();
+
+  /**
+   * Creates an empty fleet
+   * @param options - Fleet configuration
+   */
+  constructor(options: IRobotFleetOptions = {}) {
+    super();
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Names of the registered robots, in registration order
+   */
+  get names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Number of registered robots
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Register a robot
+   * @param name - Unique robot name
+   * @param target - Serial port path or a custom transport
+   * @param options - Controller and recorder options
+   * @returns The new fleet member
+   */
+  add(name: string, target: string | ITransport, options: IFleetRobotOptions = {}): IFleetMember {
+    if (this.entries.has(name)) {
+      throw new Error(`Robot already registered: ${name}`);
+    }
+
+    const { recorder: recorderOptions = {}, ...controllerOptions } = options;
+    const robot = new MyCobotController(target, { logger: this.logger, ...controllerOptions });
+    const recorder = new MovementRecorder(robot, { logger: this.logger, ...recorderOptions });
+    const entry: IFleetEntry = {
+      name,
+      robot,
+      recorder,
+      timeouts: 0,
+      lastError: null,
+      lastSeen: null,
+      detach: () => undefined,
+    };
+
+    this.entries.set(name, entry);
+    entry.detach = this._forwardEvents(name, robot);
+    this.emit('added', name);
+
+    return { name, robot, recorder };
+  }
+
+  /**
+   * Disconnect a robot and remove it from the fleet
+   * @param name - Robot name
+   * @param options - Abort signal for the disconnect
+   * @returns Promise that resolves when the robot is removed
+   */
+  async remove(name: string, options: IAbortOptions = {}): Promise<void> {
+    const entry = this._entry(name);
+
+    await entry.robot.disconnect(options);
+    entry.detach();
+    this.entries.delete(name);
+    this.emit('removed', name);
+  }
+
+  /**
+   * Check whether a robot is registered
+   * @param name - Robot name
+   * @returns True if the name is registered
+   */
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Get a registered robot
+   * @param name - Robot name
+   * @returns The fleet member
+   */
+  get(name: string): IFleetMember {
+    const { robot, recorder } = this._entry(name);
+
+    return { name, robot, recorder };
+  }
+
+  /**
+   * Connect every robot
+   * @param options - Abort signal shared by all connections
+   * @returns Promise that resolves with the outcome per robot once all have settled
+   */
+  async connectAll(options: IAbortOptions = {}): Promise<TFleetResult<void>[]> {
+    return this.broadcast(async ({ robot }) => robot.connect(options));
+  }
+
+  /**
+   * Disconnect every robot
+   * @param options - Abort signal shared by all disconnections
+   * @returns Promise that resolves with the outcome per robot once all have settled
+   */
+  async disconnectAll(options: IAbortOptions = {}): Promise<TFleetResult<void>[]> {
+    return this.broadcast(async ({ robot }) => robot.disconnect(options));
+  }
+
+  /**
+   * Stop motion and playback on every robot
+   * The stop command is sent right away, even if stopping the recorder fails
+   * @param options - Abort signal shared by all commands
+   * @returns Promise that resolves with the outcome per robot once all have settled
+   */
+  async stopAll(options: IAbortOptions = {}): Promise<TFleetResult<void>[]> {
+    return this.broadcast(async (member) => (
+      this._haltWith(member, async () => member.robot.stop(options), options)
+    ));
+  }
+
+  /**
+   * Power on every robot
+   * @param options - Abort signal shared by all commands
+   * @returns Promise that resolves with the outcome per robot once all have settled
+   */
+  async powerOnAll(options: IAbortOptions = {}): Promise<TFleetResult<void>[]> {
+    return this.broadcast(async ({ robot }) => robot.powerOn(options));
+  }
+
+  /**
+   * Power off every robot and stop its playback
+   * The power-off command is sent right away, even if stopping the recorder fails
+   * @param options - Abort signal shared by all commands
+   * @returns Promise that resolves with the outcome per robot once all have settled
+   */
+  async powerOffAll(options: IAbortOptions = {}): Promise<TFleetResult<void>[]> {
+    return this.broadcast(async (member) => (
+      this._haltWith(member, async () => member.robot.powerOff(options), options)
+    ));
+  }
+
+  /**
+   * Run an operation on every robot concurrently
+   * A failure on one robot does not prevent the operation on the others
+   * @param operation - Operation to run per robot
+   * @returns Promise that resolves with the outcome per robot, in registration order
+   */
+  async broadcast<T>(operation: (member: IFleetMember) => Promise<T>): Promise<TFleetResult<T>[]> {
+    const members = [...this.entries.values()];
+    const results = await Promise.allSettled(members.map(async (member) => operation(member)));
+
+    return results.map((result, index) => {
+      const name = members[index]?.name ?? '';
+
+      if (result.status === 'rejected') {
+        this.logger.warn(`[${name}] Fleet operation failed: ${(result.reason as Error).message}`);
+      }
+
+      return { ...result, name };
+    });
+  }
+
+  /**
+   * Get a health snapshot of every robot
+   * @returns Health per robot, in registration order
+   */
+  getHealth(): IRobotHealth[] {
+    return [...this.entries.values()].map((entry) => ({
+      name: entry.name,
+      connected: entry.robot.connected,
+      reconnecting: entry.robot.reconnecting,
+      playing: entry.recorder.getStatus().isPlaying,
+      transport: entry.robot.transportDescription,
+      timeouts: entry.timeouts,
+      lastError: entry.lastError,
+      lastSeen: entry.lastSeen,
+    }));
+  }
+
+  /**
+   * Send a halting command and stop playback at the same time
+   * The command goes out first and does not wait for, or depend on, stopping the recorder;
+   * stopPlayback() flags the playback loop before it yields, so no frame follows the command
+   * @param member - Robot to halt
+   * @param command - Sends the halting command
+   * @param options - Abort signal
+   * @returns Promise that resolves once both have settled, rejecting with the first failure
+   */
+  private async _haltWith(
+    member: IFleetMember,
+    command: () => Promise<void>,
+    options: IAbortOptions,
+  ): Promise<void> {
+    const results = await Promise.allSettled([command(), member.recorder.stopPlayback(options)]);
+    const failure = results.find((result): result is PromiseRejectedResult => (
+      result.status === 'rejected'
+    ));
+
+    if (failure) {
+      throw failure.reason instanceof Error ? failure.reason : new Error(String(failure.reason));
+    }
+  }
+
+  /**
+   * Look up a registered robot
+   * @param name - Robot name
+   * @returns Internal entry
+   */
+  private _entry(name: string): IFleetEntry {
+    const entry = this.entries.get(name);
+
+    if (!entry) {
+      throw new Error(`Unknown robot: ${name}`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Re-emit a robot's events on the fleet, tagged with its name, and track its health
+   * @param name - Robot name
+   * @param robot - Controller to subscribe to
+   * @returns Function that removes the listeners again
+   */
+  private _forwardEvents(name: string, robot: MyCobotController): () => void {
+    const health = (update: Partial<Pick<IFleetEntry, 'lastError' | 'lastSeen'>>): void => {
+      const entry = this.entries.get(name);
+
+      if (entry) {
+        Object.assign(entry, update);
+      }
+    };
+    const onConnect = (): void => {
+      this.emit('connect', name);
+    };
+    const onDisconnect = (): void => {
+      this.emit('disconnect', name);
+    };
+    const onError = (error: Error): void => {
+      health({ lastError: error });
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', name, error);
+      } else {
+        this.logger.error(`[${name}] ${error.message}`);
+      }
+    };
+    const onTimeout = (commandId: TCommandId, timeoutMs: number, requestId: number): void => {
+      const entry = this.entries.get(name);
+
+      if (entry) {
+        entry.timeouts += 1;
+      }
+      this.emit('timeout', name, commandId, timeoutMs, requestId);
+    };
+    const onPacket = (): void => {
+      health({ lastSeen: Date.now() });
+    };
+    const onReconnecting = (attempt: number, delayMs: number): void => {
+      this.emit('reconnecting', name, attempt, delayMs);
+    };
+    const onReconnect = (attempt: number): void => {
+      this.emit('reconnect', name, attempt);
+    };
+    const onReconnectFailed = (error: Error): void => {
+      health({ lastError: error });
+      this.emit('reconnectFailed', name, error);
+    };
+
+    robot.on('connect', onConnect);
+    robot.on('disconnect', onDisconnect);
+    robot.on('error', onError);
+    robot.on('timeout', onTimeout);
+    robot.on('packetReceived', onPacket);
+    robot.on('reconnecting', onReconnecting);
+    robot.on('reconnect', onReconnect);
+    robot.on('reconnectFailed', onReconnectFailed);
+
+    return () => {
+      robot.off('connect', onConnect);
+      robot.off('disconnect', onDisconnect);
+      robot.off('error', onError);
+      robot.off('timeout', onTimeout);
+      robot.off('packetReceived', onPacket);
+      robot.off('reconnecting', onReconnecting);
+      robot.off('reconnect', onReconnect);
+      robot.off('reconnectFailed', onReconnectFailed);
+    };
+  }
+}
+
+export default RobotFleet;
@@ -0,0 +1,172 @@
+import { EventEmitter } from 'events';
+import { SerialPort } from 'serialport';
+import type { ITransport, ITransportEvents } from './transport.js';
+
+/**
+ * Configuration options for SerialTransport
+ */
+export interface ISerialTransportOptions {
+  /** Serial port path (e.g., '/dev/ttyUSB0', 'COM3') */
+  readonly path: string;
+  /** Serial communication baud rate (default: 115200) */
+  readonly baudRate?: number;
+}
+
+/**
+ * Serial port description as reported by the operating system
+ */
+export interface ISerialPortInfo {
+  /** Serial port path (e.g., '/dev/ttyUSB0', 'COM3') */
+  readonly path: string;
+  /** USB manufacturer string, if known */
+  readonly manufacturer?: string | undefined;
+  /** USB product ID, if known */
+  readonly productId?: string | undefined;
+  /** USB vendor ID, if known */
+  readonly vendorId?: string | undefined;
+  /** USB serial number, if known */
+  readonly serialNumber?: string | undefined;
+  /** Plug and Play ID (Windows), if known */
+  readonly pnpId?: string | undefined;
+}
+
+/**
+ * Check whether a port looks like the USB-serial bridge of an M5Stack base
+ * (WCH CH34x or FTDI chips). This is only a hint; use MyCobotController.discover()
+ * to confirm that a robot answers on the port
+ * @param port - Port description
+ * @returns True if the manufacturer or path matches a known USB-serial bridge
+ */
+export function isLikelyMyCobotPort(port: ISerialPortInfo): boolean {
+  const manufacturer = (port.manufacturer ?? '').toLowerCase();
+  const path = port.path.toLowerCase();
+
+  return (
+    manufacturer.includes('wch.cn')
+    || manufacturer.includes('ftdi')
+    || manufacturer.includes('ch340')
+    || manufacturer.includes('ch341')
+    || path.includes('usbserial')
+    || path.includes('ttyusb')
+    || path.includes('ttyacm')
+  );
+}
+
+/**
+ * Serial Transport Class
+ * Default transport: talks to the robot over the M5Stack USB serial port
+ */
+export class SerialTransport extends EventEmitter<ITransportEvents> implements ITransport {
+  readonly description: string;
+
+  private readonly port: SerialPort;
+
+  /**
+   * Creates a new serial transport
+   * @param options - Serial port configuration
+   */
+  constructor(options: ISerialTransportOptions) {
+    super();
+
+    const baudRate = options.baudRate ?? 115200;
+
+    this.description = `${options.path} at ${baudRate} bps`;
+    this.port = new SerialPort({
+      path: options.path,
+      baudRate,
+      autoOpen: false,
+      rtscts: false,
+    });
+
+    this.port.on('data', (data: Buffer) => {
+      this.emit('data', data);
+    });
+
+    this.port.on('open', () => {
+      this.emit('open');
+    });
+
+    this.port.on('close', () => {
+      this.emit('close');
+    });
+
+    this.port.on('error', (error: Error) => {
+      this.emit('error', error);
+    });
+  }
+
+  /**
+   * List the serial ports available on this machine
+   * @returns Promise that resolves with the port descriptions
+   */
+  static async list(): Promise<ISerialPortInfo[]> {
+    const ports = await SerialPort.list();
+
+    return ports.map((port) => ({
+      path: port.path,
+      manufacturer: port.manufacturer,
+      productId: port.productId,
+      vendorId: port.vendorId,
+      serialNumber: port.serialNumber,
+      pnpId: port.pnpId,
+    }));
+  }
+
+  get isOpen(): boolean {
+    return this.port.isOpen;
+  }
+
+  /**
+   * Open the serial port
+   * @returns Promise that resolves when the port is open
+   */
+  async open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.port.open((error: Error | null) => {
+        if (error) {
+          reject(new Error(`Failed to open port: ${error.message}`));
+
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Close the serial port
+   * @returns Promise that resolves when the port is closed
+   */
+  async close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.port.close((error: Error | null) => {
+        if (error) {
+          reject(new Error(`Failed to close port: ${error.message}`));
+
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Write raw bytes to the serial port
+   * @param data - Bytes to send
+   * @returns Promise that resolves when the bytes are queued
+   */
+  async write(data: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.port.write(data, (error: Error | null | undefined) => {
+        if (error) {
+          reject(new Error(`Failed to write to port: ${error.message}`));
+
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+}
+
+export default SerialTransport;
@@ -0,0 +1,138 @@
+import {
+  abortable,
+  abortableDelay,
+  throwIfAborted,
+  type IAbortOptions,
+} from './abort.js';
+import type { TJointId } from './command-ids.js';
+import { silentLogger, type ILogger } from './logger.js';
+import type { MyCobotController } from './mycobot-controller.js';
+
+/**
+ * Servo calibration configuration options
+ */
+export interface IServoCalibrationOptions {
+  /**
+   * Largest angle in degrees a joint may read after calibration to count as verified
+   * (default: 1)
+   */
+  readonly tolerance?: number;
+  /** Wait between committing the zero and reading it back, in milliseconds (default: 500) */
+  readonly settleTime?: number;
+  /** Logger for calibration progress (default: silent) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Options for a calibration run
+ */
+export interface ICalibrationRunOptions extends IAbortOptions {
+  /** Joints to calibrate, in order (default: 1-6) */
+  readonly joints?: readonly TJointId[];
+}
+
+/**
+ * Called once a joint has been released; resolve when the operator has placed it
+ * at its zero position
+ */
+export type TOperatorPrompt = (jointId: TJointId) => Promise<void>;
+
+/**
+ * Outcome of calibrating one joint
+ */
+export interface ICalibrationResult {
+  /** Calibrated joint (1-6) */
+  readonly jointId: TJointId;
+  /** Angle read back after committing the zero, in degrees */
+  readonly angle: number;
+  /** Whether the read-back angle is within the tolerance */
+  readonly verified: boolean;
+}
+
+/**
+ * Servo Calibration Class
+ * Guided zero-point calibration, e.g. after replacing a servo: releases a joint,
+ * waits for the operator to place it, commits the zero and verifies it with getAngles()
+ */
+export class ServoCalibration {
+  private readonly robot: MyCobotController;
+  private readonly tolerance: number;
+  private readonly settleTime: number;
+  private readonly logger: ILogger;
+
+  /**
+   * Creates a new ServoCalibration instance
+   * @param robot - The robot controller instance
+   * @param options - Calibration options
+   */
+  constructor(robot: MyCobotController, options: IServoCalibrationOptions = {}) {
+    this.robot = robot;
+    this.tolerance = options.tolerance ?? 1;
+    this.settleTime = options.settleTime ?? 500;
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Calibrate a single joint
+   * If the operator prompt fails or the signal aborts, the joint is locked again
+   * where it is and nothing is committed
+   * @param jointId - Joint to calibrate (1-6)
+   * @param waitForOperator - Resolves once the operator has placed the joint at zero
+   * @param options - Abort signal
+   * @returns Promise that resolves with the verification result
+   */
+  async calibrate(
+    jointId: TJointId,
+    waitForOperator: TOperatorPrompt,
+    options: IAbortOptions = {},
+  ): Promise<ICalibrationResult> {
+    throwIfAborted(options.signal);
+    this.logger.info(`Releasing joint ${jointId}. Support the arm and move the joint to its zero mark.`);
+    await this.robot.releaseServo(jointId, options);
+
+    try {
+      await abortable(waitForOperator(jointId), options.signal);
+    } catch (error) {
+      await this.robot.focusServo(jointId).catch(() => undefined);
+      throw error;
+    }
+
+    await this.robot.setServoCalibration(jointId, options);
+    await this.robot.focusServo(jointId, options);
+    await abortableDelay(this.settleTime, options.signal);
+
+    const angles = await this.robot.getAngles(options);
+    const angle = angles[jointId - 1] ?? Number.NaN;
+    const verified = Math.abs(angle) <= this.tolerance;
+
+    if (verified) {
+      this.logger.info(`Joint ${jointId} calibrated (reads ${angle.toFixed(2)}°)`);
+    } else {
+      this.logger.warn(`Joint ${jointId} reads ${angle.toFixed(2)}° after calibration (tolerance ±${this.tolerance}°)`);
+    }
+
+    return { jointId, angle, verified };
+  }
+
+  /**
+   * Calibrate several joints one after the other
+   * @param waitForOperator - Resolves once the operator has placed the current joint at zero
+   * @param options - Joints to calibrate and abort signal
+   * @returns Promise that resolves with one result per joint
+   */
+  async run(
+    waitForOperator: TOperatorPrompt,
+    options: ICalibrationRunOptions = {},
+  ): Promise<ICalibrationResult[]> {
+    const { joints = [1, 2, 3, 4, 5, 6], signal } = options;
+    const results: ICalibrationResult[] = [];
+
+    for (const jointId of joints) {
+      results.push(await this.calibrate(jointId, waitForOperator, { signal }));
+    }
+
+    return results;
+  }
+}
+
+export default ServoCalibration;
@@ -0,0 +1,37 @@
+/**
+ * Servo register addresses for GET_SERVO_DATA / SET_SERVO_DATA
+ * The myCobot 280 joints use Feetech STS servos; these are their EEPROM
+ * tuning parameters. Addresses below 13 hold identity data and are read-only
+ */
+
+export const SERVO_REGISTERS = {
+  MAX_TEMPERATURE: 13,
+  MAX_VOLTAGE: 14,
+  MIN_VOLTAGE: 15,
+  P_GAIN: 21,
+  D_GAIN: 22,
+  I_GAIN: 23,
+  MIN_STARTUP_FORCE: 24,
+  CW_DEAD_ZONE: 26,
+  CCW_DEAD_ZONE: 27,
+  PROTECTION_CURRENT: 28,
+  PROTECTIVE_TORQUE: 34,
+  PROTECTION_TIME: 35,
+  OVERLOAD_TORQUE: 36,
+  ACCELERATION: 41,
+  MAX_SPEED: 46,
+} as const;
+
+/**
+ * Registers whose value spans two bytes; all others hold a single byte
+ */
+export const WIDE_SERVO_REGISTERS: ReadonlySet<number> = new Set([
+  SERVO_REGISTERS.MIN_STARTUP_FORCE,
+  SERVO_REGISTERS.PROTECTION_CURRENT,
+  SERVO_REGISTERS.MAX_SPEED,
+]);
+
+export type TServoRegisterName = keyof typeof SERVO_REGISTERS;
+export type TServoRegister = typeof SERVO_REGISTERS[TServoRegisterName];
+
+export default SERVO_REGISTERS;
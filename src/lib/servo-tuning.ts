@@ -0,0 +1,231 @@
+import fs from 'fs/promises';
+import { rethrowIfAborted, throwIfAborted, type IAbortOptions } from './abort.js';
+import type { TJointId } from './command-ids.js';
+import { silentLogger, type ILogger } from './logger.js';
+import type { MyCobotController } from './mycobot-controller.js';
+import { SERVO_REGISTERS, type TServoRegisterName } from './servo-registers.js';
+
+/**
+ * Register values of one servo
+ */
+export interface IServoTuningJoint {
+  /** Joint the servo drives (1-6) */
+  readonly jointId: TJointId;
+  /** Register values keyed by SERVO_REGISTERS name */
+  readonly values: Readonly<Partial<Record<TServoRegisterName, number>>>;
+}
+
+/**
+ * Saved servo parameters of a whole arm
+ */
+export interface IServoTuningSnapshot {
+  /** ISO string timestamp when the snapshot was taken */
+  readonly takenAt: string;
+  /** Register values per joint */
+  readonly joints: readonly IServoTuningJoint[];
+  /** Additional custom metadata (e.g., payload description) */
+  readonly metadata?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Servo tuning configuration options
+ */
+export interface IServoTuningOptions {
+  /** Registers included in snapshots (default: every register in SERVO_REGISTERS) */
+  readonly registers?: readonly TServoRegisterName[];
+  /** Logger for snapshot and restore progress (default: silent) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface IServoRestoreResult {
+  /** Registers that differed and were written */
+  readonly written: number;
+  /** Registers that already held the saved value */
+  readonly unchanged: number;
+}
+
+/**
+ * Check that a parsed JSON value is an object
+ * @param value - Value to check
+ * @returns True for non-null, non-array objects
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Servo Tuning Class
+ * Takes snapshots of the servo parameters (PID gains, speed, acceleration,
+ * protection limits) of every joint, saves them as JSON and restores them
+ */
+export class ServoTuning {
+  private readonly robot: MyCobotController;
+  private readonly registers: readonly TServoRegisterName[];
+  private readonly logger: ILogger;
+
+  /**
+   * Creates a new ServoTuning instance
+   * @param robot - The robot controller instance
+   * @param options - Tuning options
+   */
+  constructor(robot: MyCobotController, options: IServoTuningOptions = {}) {
+    this.robot = robot;
+    this.registers = options.registers ?? (Object.keys(SERVO_REGISTERS) as TServoRegisterName[]);
+    this.logger = options.logger ?? silentLogger;
+  }
+
+  /**
+   * Read the configured registers of all six servos
+   * @param options - Abort signal for the reads
+   * @returns Promise that resolves with the snapshot
+   */
+  async snapshot(options: IAbortOptions = {}): Promise<IServoTuningSnapshot> {
+    const joints: IServoTuningJoint[] = [];
+
+    for (let jointId = 1; jointId <= 6; jointId += 1) {
+      const values: Partial<Record<TServoRegisterName, number>> = {};
+
+      for (const register of this.registers) {
+        values[register] = await this.robot.getServoData(jointId as TJointId, register, options);
+      }
+
+      joints.push({ jointId: jointId as TJointId, values });
+    }
+
+    this.logger.info(`Captured ${this.registers.length} servo parameters for 6 joints`);
+
+    return { takenAt: new Date().toISOString(), joints };
+  }
+
+  /**
+   * Take a snapshot and save it to a file
+   * @param filename - The filename to save to
+   * @param metadata - Additional metadata to include
+   * @param options - Abort signal for the reads and the file write
+   * @returns Promise that resolves with the saved snapshot
+   */
+  async save(
+    filename: string,
+    metadata: Record<string, unknown> = {},
+    options: IAbortOptions = {},
+  ): Promise<IServoTuningSnapshot> {
+    const snapshot: IServoTuningSnapshot = { ...(await this.snapshot(options)), metadata };
+
+    try {
+      await fs.writeFile(filename, JSON.stringify(snapshot, null, 2), { encoding: 'utf8', signal: options.signal });
+      this.logger.info(`Servo parameters saved to ${filename}`);
+    } catch (error) {
+      rethrowIfAborted(error, options.signal);
+      throw new Error(`Failed to save servo parameters: ${(error as Error).message}`);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Load a snapshot from a file
+   * @param filename - The filename to load from
+   * @param options - Abort signal for the file read
+   * @returns Promise that resolves with the snapshot
+   */
+  async load(filename: string, options: IAbortOptions = {}): Promise<IServoTuningSnapshot> {
+    try {
+      const fileContent = await fs.readFile(filename, { encoding: 'utf8', signal: options.signal });
+      const snapshot: unknown = JSON.parse(fileContent);
+
+      this._validate(snapshot);
+      this.logger.info(`Loaded servo parameters from ${filename} (taken ${snapshot.takenAt})`);
+
+      return snapshot;
+    } catch (error) {
+      rethrowIfAborted(error, options.signal);
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Servo parameter file not found: ${filename}`);
+      }
+      throw new Error(`Failed to load servo parameters: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Write saved parameters back to the servos
+   * Each register is read first and only written if it differs, to spare the servo EEPROM
+   * @param snapshot - Filename or snapshot object
+   * @param options - Abort signal for the reads and writes
+   * @returns Promise that resolves with the number of registers written and left unchanged
+   */
+  async restore(
+    snapshot: string | IServoTuningSnapshot,
+    options: IAbortOptions = {},
+  ): Promise<IServoRestoreResult> {
+    const data: unknown = typeof snapshot === 'string'
+      ? await this.load(snapshot, options)
+      : snapshot;
+
+    this._validate(data);
+
+    let written = 0;
+    let unchanged = 0;
+
+    for (const joint of data.joints) {
+      const values = Object.entries(joint.values) as [TServoRegisterName, number][];
+
+      for (const [register, value] of values) {
+        throwIfAborted(options.signal);
+
+        const current = await this.robot.getServoData(joint.jointId, register, options);
+
+        if (current === value) {
+          unchanged += 1;
+        } else {
+          this.logger.debug(`Joint ${joint.jointId} ${register}: ${current} -> ${value}`);
+          await this.robot.setServoData(joint.jointId, register, value, options);
+          written += 1;
+        }
+      }
+    }
+
+    this.logger.info(`Servo parameters restored: ${written} written, ${unchanged} unchanged`);
+
+    return { written, unchanged };
+  }
+
+  /**
+   * Check the structure of a snapshot, e.g. one parsed from a file
+   * @param snapshot - Value to check
+   */
+  private _validate(snapshot: unknown): asserts snapshot is IServoTuningSnapshot {
+    if (!isRecord(snapshot) || !Array.isArray(snapshot.joints)) {
+      throw new Error('Invalid servo parameter snapshot: missing joints array');
+    }
+
+    const savedJoints: unknown[] = snapshot.joints;
+
+    savedJoints.forEach((joint) => {
+      const jointId = isRecord(joint) ? joint.jointId : undefined;
+
+      if (
+        !isRecord(joint)
+        || typeof jointId !== 'number'
+        || !Number.isInteger(jointId)
+        || jointId < 1
+        || jointId > 6
+      ) {
+        throw new Error(`Invalid servo parameter snapshot: bad joint ID ${String(jointId)}`);
+      }
+      if (!isRecord(joint.values)) {
+        throw new Error(`Invalid servo parameter snapshot: missing values for joint ${jointId}`);
+      }
+
+      Object.entries(joint.values).forEach(([register, value]) => {
+        if (!Object.hasOwn(SERVO_REGISTERS, register) || typeof value !== 'number') {
+          throw new Error(`Invalid servo parameter snapshot: bad value for ${register} on joint ${jointId}`);
+        }
+      });
+    });
+  }
+}
+
+export default ServoTuning;
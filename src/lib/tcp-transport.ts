@@ -0,0 +1,160 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import type { ITransport, ITransportEvents } from './transport.js';
+
+/**
+ * Configuration options for TcpTransport
+ */
+export interface ITcpTransportOptions {
+  /** Hostname or IP address of the socket server (e.g., a Raspberry Pi bridge) */
+  readonly host: string;
+  /** TCP port of the socket server (default: 9000) */
+  readonly port?: number;
+  /** Connection timeout in milliseconds (default: 5000) */
+  readonly connectTimeout?: number;
+  /**
+   * Time to wait for the server to acknowledge a close before destroying the socket,
+   * in milliseconds (default: 2000)
+   */
+  readonly closeTimeout?: number;
+}
+
+/**
+ * TCP Transport Class
+ * Talks to a robot exposed through a raw TCP socket server that forwards
+ * bytes to and from the serial port (e.g., a Pi running a socket bridge)
+ */
+export class TcpTransport extends EventEmitter<ITransportEvents> implements ITransport {
+  readonly description: string;
+
+  private readonly host: string;
+  private readonly port: number;
+  private readonly connectTimeout: number;
+  private readonly closeTimeout: number;
+
+  private socket: net.Socket | null = null;
+
+  /**
+   * Creates a new TCP transport
+   * @param options - Socket server configuration
+   */
+  constructor(options: ITcpTransportOptions) {
+    super();
+    this.host = options.host;
+    this.port = options.port ?? 9000;
+    this.connectTimeout = options.connectTimeout ?? 5000;
+    this.closeTimeout = options.closeTimeout ?? 2000;
+    this.description = `tcp://${this.host}:${this.port}`;
+  }
+
+  get isOpen(): boolean {
+    return this.socket !== null && !this.socket.destroyed && this.socket.readyState === 'open';
+  }
+
+  /**
+   * Connect to the socket server
+   * @returns Promise that resolves when the connection is established
+   */
+  async open(): Promise<void> {
+    if (this.isOpen) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+
+      const onConnectError = (error: Error): void => {
+        socket.destroy();
+        reject(new Error(`Failed to connect to ${this.description}: ${error.message}`));
+      };
+
+      socket.setNoDelay(true);
+      socket.setTimeout(this.connectTimeout, () => {
+        onConnectError(new Error('connection timed out'));
+      });
+      socket.once('error', onConnectError);
+
+      socket.once('connect', () => {
+        socket.setTimeout(0);
+        socket.off('error', onConnectError);
+        this._attachSocket(socket);
+        this.emit('open');
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Close the connection to the socket server
+   * A server that does not acknowledge the close within closeTimeout has its socket destroyed
+   * @returns Promise that resolves when the socket is closed
+   */
+  async close(): Promise<void> {
+    const { socket } = this;
+
+    if (!socket || socket.destroyed) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        socket.destroy();
+      }, this.closeTimeout);
+
+      socket.once('close', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.end();
+    });
+  }
+
+  /**
+   * Write raw bytes to the socket
+   * @param data - Bytes to send
+   * @returns Promise that resolves when the bytes are flushed to the kernel
+   */
+  async write(data: Buffer): Promise<void> {
+    const { socket } = this;
+
+    if (!socket || !this.isOpen) {
+      throw new Error(`Socket ${this.description} is not open`);
+    }
+
+    return new Promise((resolve, reject) => {
+      socket.write(data, (error?: Error | null) => {
+        if (error) {
+          reject(new Error(`Failed to write to socket: ${error.message}`));
+
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Wire socket events to transport events
+   * @param socket - Connected socket
+   */
+  private _attachSocket(socket: net.Socket): void {
+    this.socket = socket;
+
+    socket.on('data', (data: Buffer) => {
+      this.emit('data', data);
+    });
+
+    socket.on('error', (error: Error) => {
+      this.emit('error', error);
+    });
+
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      this.emit('close');
+    });
+  }
+}
+
+export default TcpTransport;
@@ -0,0 +1,116 @@
+import { performance } from 'perf_hooks';
+import { abortableDelay, throwIfAborted, type IAbortOptions } from './abort.js';
+import type { TMovementSpeed } from './command-ids.js';
+import { silentLogger, type ILogger } from './logger.js';
+import type { MyCobotController } from './mycobot-controller.js';
+import type { JointTrajectory } from './trajectory-planner.js';
+
+/**
+ * Trajectory executor configuration options
+ */
+export interface ITrajectoryExecutorOptions {
+  /** Setpoints sent per second (default: 20) */
+  readonly rate?: number;
+  /** Robot movement speed used to chase each setpoint (default: 100) */
+  readonly moveSpeed?: TMovementSpeed;
+  /** Logger for execution progress (default: silent) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Trajectory Executor Class
+ * Streams a planned trajectory to the robot as sendAngles() setpoints at a fixed rate;
+ * the timing comes from the trajectory, so the firmware speed only needs to keep up
+ */
+export class TrajectoryExecutor {
+  private readonly robot: MyCobotController;
+  private readonly rate: number;
+  private readonly moveSpeed: TMovementSpeed;
+  private readonly logger: ILogger;
+  private isExecuting = false;
+  /** Incremented by every execute() and stop(); a run whose number is stale stops streaming */
+  private generation = 0;
+
+  /**
+   * Creates a new TrajectoryExecutor instance
+   * @param robot - The robot controller instance
+   * @param options - Executor options
+   */
+  constructor(robot: MyCobotController, options: ITrajectoryExecutorOptions = {}) {
+    this.robot = robot;
+    this.rate = options.rate ?? 20;
+    this.moveSpeed = options.moveSpeed ?? 100;
+    this.logger = options.logger ?? silentLogger;
+
+    if (!(this.rate > 0) || this.rate > 100) {
+      throw new Error('Rate must be greater than 0 and at most 100 Hz');
+    }
+  }
+
+  /**
+   * Whether a trajectory is being streamed
+   */
+  get executing(): boolean {
+    return this.isExecuting;
+  }
+
+  /**
+   * Stream a trajectory to the robot
+   * Setpoints are scheduled against a monotonic clock, so a slow send delays
+   * one setpoint without shifting the ones after it
+   * @param trajectory - Trajectory to execute
+   * @param options - Abort signal; aborting stops streaming and leaves the arm at its last setpoint
+   * @returns Promise that resolves once the final setpoint has been sent
+   */
+  async execute(trajectory: JointTrajectory, options: IAbortOptions = {}): Promise<void> {
+    if (this.isExecuting) {
+      throw new Error('Trajectory execution already in progress');
+    }
+    throwIfAborted(options.signal);
+
+    const points = trajectory.samples(this.rate);
+
+    this.logger.info(`Executing ${trajectory.profile} trajectory: ${trajectory.duration.toFixed(2)}s, ${points.length} setpoints at ${this.rate} Hz`);
+    this.isExecuting = true;
+    this.generation += 1;
+
+    const run = this.generation;
+
+    try {
+      const startTime = performance.now();
+
+      for (const point of points) {
+        await abortableDelay(
+          Math.max(0, startTime + point.time * 1000 - performance.now()),
+          options.signal,
+        );
+        // Checked right before each send, as stop() or a new run may come during any await
+        if (run !== this.generation) {
+          this.logger.info('Trajectory execution stopped');
+
+          return;
+        }
+
+        await this.robot.sendAngles(point.angles, this.moveSpeed, options);
+      }
+
+      this.logger.info('Trajectory execution completed');
+    } finally {
+      // A stopped run must not clear the flag of a run started after it
+      if (run === this.generation) {
+        this.isExecuting = false;
+      }
+    }
+  }
+
+  /**
+   * Stop streaming after the current setpoint
+   * The arm finishes the move toward the last setpoint sent; call robot.stop() to halt it at once
+   */
+  stop(): void {
+    this.isExecuting = false;
+    this.generation += 1;
+  }
+}
+
+export default TrajectoryExecutor;
@@ -0,0 +1,352 @@
+/**
+ * Time-parameterized joint trajectories
+ * All joints follow one velocity profile over a shared path parameter s ∈ [0, 1],
+ * q(s) = start + s · (goal - start), so they start and arrive together
+ */
+
+import type { TJointAngles } from './command-ids.js';
+
+/**
+ * Velocity profile shape:
+ * 'trapezoidal' limits velocity and acceleration, 's-curve' also limits jerk
+ */
+export type TVelocityProfile = 'trapezoidal' | 's-curve';
+
+/**
+ * A limit given for all joints at once or per joint
+ */
+export type TJointLimitValue = number | readonly number[];
+
+/**
+ * Trajectory planning options
+ */
+export interface ITrajectoryOptions {
+  /** Largest joint velocity in degrees per second */
+  readonly velocity: TJointLimitValue;
+  /** Largest joint acceleration in degrees per second squared */
+  readonly acceleration: TJointLimitValue;
+  /** Largest joint jerk in degrees per second cubed (required for 's-curve') */
+  readonly jerk?: TJointLimitValue;
+  /** Profile shape (default: 's-curve' if jerk is given, otherwise 'trapezoidal') */
+  readonly profile?: TVelocityProfile;
+  /**
+   * Move duration in seconds; must not be shorter than the limits allow
+   * (default: as fast as the limits allow)
+   */
+  readonly duration?: number;
+}
+
+/**
+ * State of a trajectory at one instant
+ */
+export interface ITrajectoryPoint {
+  /** Time since the start of the trajectory, in seconds */
+  readonly time: number;
+  /** Joint angles in degrees */
+  readonly angles: TJointAngles;
+  /** Joint velocities in degrees per second */
+  readonly velocities: TJointAngles;
+}
+
+/**
+ * Piece of the path parameter profile with constant jerk
+ */
+interface IProfileSegment {
+  /** Time the segment starts, in seconds */
+  readonly start: number;
+  /** Segment length in seconds */
+  readonly duration: number;
+  /** Path position at the start */
+  readonly position: number;
+  /** Path velocity at the start, per second */
+  readonly velocity: number;
+  /** Path acceleration at the start, per second squared */
+  readonly acceleration: number;
+  /** Path jerk, per second cubed */
+  readonly jerk: number;
+}
+
+/**
+ * Joint Trajectory Class
+ * A planned move between two joint poses, sampled at any time
+ */
+export class JointTrajectory {
+  /** Joint angles at the start, in degrees */
+  readonly start: TJointAngles;
+  /** Joint angles at the end, in degrees */
+  readonly goal: TJointAngles;
+  /** Profile shape */
+  readonly profile: TVelocityProfile;
+  /** Total duration in seconds */
+  readonly duration: number;
+
+  private readonly segments: readonly IProfileSegment[];
+  private readonly timeScale: number;
+
+  /**
+   * Creates a trajectory from a path parameter profile; use planTrajectory() instead
+   * @param start - Joint angles at the start
+   * @param goal - Joint angles at the end
+   * @param profile - Profile shape
+   * @param segments - Path parameter profile for s from 0 to 1
+   * @param duration - Total duration in seconds, at least as long as the profile
+   */
+  constructor(
+    start: TJointAngles,
+    goal: TJointAngles,
+    profile: TVelocityProfile,
+    segments: readonly IProfileSegment[],
+    duration: number,
+  ) {
+    const last = segments[segments.length - 1];
+    const profileDuration = last ? last.start + last.duration : 0;
+
+    this.start = start;
+    this.goal = goal;
+    this.profile = profile;
+    this.segments = segments;
+    this.duration = duration;
+    // Stretching time uniformly keeps the shape and lowers every limit
+    this.timeScale = duration > 0 ? profileDuration / duration : 1;
+  }
+
+  /**
+   * Evaluate the trajectory
+   * @param time - Time since the start in seconds; clamped to [0, duration]
+   * @returns Angles and velocities at that time
+   */
+  sample(time: number): ITrajectoryPoint {
+    const clamped = Math.max(0, Math.min(this.duration, time));
+    const { position, velocity } = time >= this.duration
+      ? { position: 1, velocity: 0 }
+      : this._evaluate(clamped * this.timeScale);
+    const travel = this.start.map((angle, i) => (this.goal[i] ?? angle) - angle);
+    const angles = this.start.map((angle, i) => angle + position * (travel[i] ?? 0));
+    const velocities = travel.map((distance) => velocity * this.timeScale * distance);
+
+    return {
+      time: clamped,
+      angles: angles as unknown as TJointAngles,
+      velocities: velocities as unknown as TJointAngles,
+    };
+  }
+
+  /**
+   * Sample the trajectory at a fixed rate, always including the final point
+   * @param rate - Samples per second
+   * @returns Points from start to goal
+   */
+  samples(rate: number): ITrajectoryPoint[] {
+    if (!(rate > 0)) {
+      throw new Error('Sample rate must be positive');
+    }
+
+    const count = Math.ceil(this.duration * rate);
+    const points: ITrajectoryPoint[] = [];
+
+    for (let i = 0; i < count; i += 1) {
+      points.push(this.sample(i / rate));
+    }
+    points.push(this.sample(this.duration));
+
+    return points;
+  }
+
+  /**
+   * Evaluate the path parameter profile
+   * @param time - Profile time in seconds
+   * @returns Path position and velocity
+   */
+  private _evaluate(time: number): { position: number; velocity: number } {
+    const segment = this.segments.find((candidate) => time < candidate.start + candidate.duration)
+      ?? this.segments[this.segments.length - 1];
+
+    if (!segment) {
+      return { position: 1, velocity: 0 };
+    }
+
+    const t = Math.max(0, time - segment.start);
+
+    return {
+      position: segment.position
+        + segment.velocity * t
+        + (segment.acceleration * t * t) / 2
+        + (segment.jerk * t * t * t) / 6,
+      velocity: segment.velocity + segment.acceleration * t + (segment.jerk * t * t) / 2,
+    };
+  }
+}
+
+/**
+ * Expand a limit to one value per joint and check it
+ * @param value - Limit for all joints or per joint
+ * @param name - Name used in error messages
+ * @returns Six positive limits
+ */
+function resolveLimit(value: TJointLimitValue, name: string): number[] {
+  const limits = typeof value === 'number' ? new Array<number>(6).fill(value) : [...value];
+
+  if (limits.length !== 6 || limits.some((limit) => !(limit > 0) || !Number.isFinite(limit))) {
+    throw new Error(`${name} must be a positive number or an array of 6 positive numbers`);
+  }
+
+  return limits;
+}
+
+/**
+ * Strictest limit on the path parameter: the joint with the largest travel
+ * relative to its limit sets the pace for all joints
+ * @param limits - Joint limits
+ * @param distances - Absolute joint travel in degrees
+ * @returns Limit on s and its derivatives
+ */
+function pathLimit(limits: readonly number[], distances: readonly number[]): number {
+  return Math.min(...distances.map((distance, i) => (
+    distance > 0 ? (limits[i] ?? 0) / distance : Infinity
+  )));
+}
+
+/**
+ * Integrate constant-jerk phases into profile segments
+ * @param phases - Duration, jerk and starting acceleration of each phase
+ * @returns Segments with their start state
+ */
+function buildSegments(
+  phases: readonly { duration: number; jerk: number; acceleration: number }[],
+): IProfileSegment[] {
+  const segments: IProfileSegment[] = [];
+  let start = 0;
+  let position = 0;
+  let velocity = 0;
+
+  phases.filter((phase) => phase.duration > 0).forEach(({ duration, jerk, acceleration }) => {
+    segments.push({
+      start,
+      duration,
+      position,
+      velocity,
+      acceleration,
+      jerk,
+    });
+    position += velocity * duration
+      + (acceleration * duration * duration) / 2
+      + (jerk * duration * duration * duration) / 6;
+    velocity += acceleration * duration + (jerk * duration * duration) / 2;
+    start += duration;
+  });
+
+  return segments;
+}
+
+/**
+ * Rest-to-rest trapezoidal profile over a unit distance
+ * @param velocity - Velocity limit
+ * @param acceleration - Acceleration limit
+ * @returns Profile segments
+ */
+function trapezoidalProfile(velocity: number, acceleration: number): IProfileSegment[] {
+  // Triangular when the velocity limit cannot be reached within the distance
+  const peak = Math.min(velocity, Math.sqrt(acceleration));
+  const ramp = peak / acceleration;
+  const cruise = (1 - peak * ramp) / peak;
+
+  return buildSegments([
+    { duration: ramp, jerk: 0, acceleration },
+    { duration: cruise, jerk: 0, acceleration: 0 },
+    { duration: ramp, jerk: 0, acceleration: -acceleration },
+  ]);
+}
+
+/**
+ * Rest-to-rest jerk-limited (seven-phase) profile over a unit distance
+ * @param velocity - Velocity limit
+ * @param acceleration - Acceleration limit
+ * @param jerk - Jerk limit
+ * @returns Profile segments
+ */
+function sCurveProfile(velocity: number, acceleration: number, jerk: number): IProfileSegment[] {
+  // Duration of one velocity ramp from rest to v, with and without a constant-acceleration phase
+  const rampTime = (v: number): number => (v * jerk >= acceleration * acceleration
+    ? v / acceleration + acceleration / jerk
+    : 2 * Math.sqrt(v / jerk));
+  let peak = velocity;
+
+  if (peak * rampTime(peak) > 1) {
+    // Velocity limit not reachable: solve v · rampTime(v) = 1
+    const root = Math.sqrt((acceleration * acceleration) / (jerk * jerk) + 4 / acceleration);
+
+    peak = (acceleration * (root - acceleration / jerk)) / 2;
+    if (peak * jerk < acceleration * acceleration) {
+      peak = (Math.sqrt(jerk) / 2) ** (2 / 3);
+    }
+  }
+
+  const peakAcceleration = Math.min(acceleration, Math.sqrt(peak * jerk));
+  const jerkTime = peakAcceleration / jerk;
+  const constantTime = peak / peakAcceleration - jerkTime;
+  const cruise = (1 - peak * rampTime(peak)) / peak;
+
+  return buildSegments([
+    { duration: jerkTime, jerk, acceleration: 0 },
+    { duration: constantTime, jerk: 0, acceleration: peakAcceleration },
+    { duration: jerkTime, jerk: -jerk, acceleration: peakAcceleration },
+    { duration: cruise, jerk: 0, acceleration: 0 },
+    { duration: jerkTime, jerk: -jerk, acceleration: 0 },
+    { duration: constantTime, jerk: 0, acceleration: -peakAcceleration },
+    { duration: jerkTime, jerk, acceleration: -peakAcceleration },
+  ]);
+}
+
+/**
+ * Plan a synchronized move between two joint poses
+ * The joint with the largest travel relative to its limits runs at those limits;
+ * the others are scaled down so that every joint starts and stops together
+ * @param start - Joint angles at the start, in degrees
+ * @param goal - Joint angles at the end, in degrees
+ * @param options - Limits, profile shape and optional duration
+ * @returns The planned trajectory
+ */
+export function planTrajectory(
+  start: TJointAngles,
+  goal: TJointAngles,
+  options: ITrajectoryOptions,
+): JointTrajectory {
+  const valid = start.length === 6
+    && goal.length === 6
+    && [...start, ...goal].every((angle) => Number.isFinite(angle));
+
+  if (!valid) {
+    throw new Error('Start and goal must be arrays of exactly 6 finite numbers');
+  }
+
+  const profile = options.profile ?? (options.jerk === undefined ? 'trapezoidal' : 's-curve');
+
+  if (profile === 's-curve' && options.jerk === undefined) {
+    throw new Error('An s-curve profile requires a jerk limit');
+  }
+
+  const distances = start.map((angle, i) => Math.abs((goal[i] ?? angle) - angle));
+  const velocity = pathLimit(resolveLimit(options.velocity, 'Velocity'), distances);
+  const acceleration = pathLimit(resolveLimit(options.acceleration, 'Acceleration'), distances);
+  let segments: IProfileSegment[] = [];
+
+  if (Number.isFinite(velocity)) {
+    segments = profile === 's-curve'
+      ? sCurveProfile(
+        velocity,
+        acceleration,
+        pathLimit(resolveLimit(options.jerk ?? 0, 'Jerk'), distances),
+      )
+      : trapezoidalProfile(velocity, acceleration);
+  }
+
+  const last = segments[segments.length - 1];
+  const minimumDuration = last ? last.start + last.duration : 0;
+  const duration = options.duration ?? minimumDuration;
+
+  if (!(duration >= minimumDuration - 1e-9) || !Number.isFinite(duration)) {
+    throw new Error(`Duration ${duration}s is shorter than the limits allow (${minimumDuration.toFixed(3)}s)`);
+  }
+
+  return new JointTrajectory(start, goal, profile, segments, duration);
+}
@@ -0,0 +1,56 @@
+/**
+ * Transport abstraction for myCobot communication
+ * Decouples the controller from the physical link (USB serial, TCP bridge, ...)
+ */
+
+/**
+ * Events emitted by every transport implementation
+ */
+export interface ITransportEvents {
+  /** Raw bytes received from the robot */
+  data: [data: Buffer];
+  /** Link has been opened */
+  open: [];
+  /** Link has been closed (locally or by the remote end) */
+  close: [];
+  /** Link-level error */
+  error: [error: Error];
+}
+
+/**
+ * Byte-oriented, bidirectional link to a myCobot
+ */
+export interface ITransport {
+  /** Human readable description of the link (port path, host:port, ...) */
+  readonly description: string;
+  /** Whether the link is currently open */
+  readonly isOpen: boolean;
+
+  /**
+   * Open the link
+   * @returns Promise that resolves once the link is ready for writing
+   */
+  open(): Promise<void>;
+
+  /**
+   * Close the link
+   * @returns Promise that resolves once the link is closed
+   */
+  close(): Promise<void>;
+
+  /**
+   * Write raw bytes to the link
+   * @param data - Bytes to send
+   * @returns Promise that resolves once the bytes have been handed to the link
+   */
+  write(data: Buffer): Promise<void>;
+
+  on<E extends keyof ITransportEvents>(
+    event: E,
+    listener: (...args: ITransportEvents[E]) => void,
+  ): this;
+  off<E extends keyof ITransportEvents>(
+    event: E,
+    listener: (...args: ITransportEvents[E]) => void,
+  ): this;
+}
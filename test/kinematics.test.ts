@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { TCartesianCoords, TJointAngles } from '../src/lib/command-ids.js';
+import { forwardKinematics, inverseKinematics } from '../src/lib/kinematics.js';
+
+/** Largest position (millimetres) and orientation (degrees) difference between two poses */
+function poseError(actual: TCartesianCoords, expected: TCartesianCoords): { position: number; rotation: number } {
+  const position = Math.max(...[0, 1, 2].map((i) => Math.abs((actual[i] ?? 0) - (expected[i] ?? 0))));
+  const rotation = Math.max(...[3, 4, 5].map((i) => Math.abs(((((actual[i] ?? 0) - (expected[i] ?? 0)) % 360) + 540) % 360 - 180)));
+
+  return { position, rotation };
+}
+
+/**
+ * Check a pose against expected coordinates
+ * @param actual - Computed pose
+ * @param expected - Expected pose as [x, y, z, rx, ry, rz]
+ */
+function expectPose(actual: TCartesianCoords, expected: readonly number[]): void {
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, 6));
+}
+
+describe('forwardKinematics', () => {
+  it('matches the firmware coordinates of the zero pose', () => {
+    expectPose(forwardKinematics([0, 0, 0, 0, 0, 0]), [45.6, -63.4, 412.67, -90, 0, -90]);
+  });
+
+  // With the other joints at zero, each joint swings the links beyond it rigidly about its own axis
+  it.each<[string, TJointAngles, number[]]>([
+    ['joint 1 turns the arm about the base', [90, 0, 0, 0, 0, 0], [63.4, 45.6, 412.67, -90, 0, 0]],
+    ['joint 2 tips the arm over the shoulder', [0, 90, 0, 0, 0, 0], [-281.45, -63.4, 176.82, 0, 0, -90]],
+    ['joint 3 bends the elbow', [0, 0, 90, 0, 0, 0], [-171.05, -63.4, 287.22, 0, 0, -90]],
+    ['joint 4 bends the wrist', [0, 0, 0, 90, 0, 0], [-75.05, -63.4, 383.22, 0, 0, -90]],
+    ['joint 5 turns the wrist', [0, 0, 0, 0, 90, 0], [0, -17.8, 412.67, -90, 0, 0]],
+    ['joint 6 only turns the flange', [0, 0, 0, 0, 0, 90], [45.6, -63.4, 412.67, 0, 90, 0]],
+  ])('%s', (_name, angles, expected) => {
+    expectPose(forwardKinematics(angles), expected);
+  });
+
+  it('rotates the whole pose with joint 1', () => {
+    const angles: TJointAngles = [0, -45, 60, 20, -50, 10];
+    const [x, y, z] = forwardKinematics(angles);
+    const [turnedX, turnedY, turnedZ] = forwardKinematics([30, -45, 60, 20, -50, 10]);
+    const turn = Math.PI / 6;
+
+    expect(turnedX).toBeCloseTo(x * Math.cos(turn) - y * Math.sin(turn), 6);
+    expect(turnedY).toBeCloseTo(x * Math.sin(turn) + y * Math.cos(turn), 6);
+    expect(turnedZ).toBeCloseTo(z, 6);
+  });
+
+  it('adds the tool offset along the flange axes', () => {
+    const coords = forwardKinematics([0, 0, 0, 0, 0, 0], { tool: [0, 0, 100, 0, 0, 0] });
+
+    expectPose(coords, [145.6, -63.4, 412.67, -90, 0, -90]);
+  });
+});
+
+describe('inverseKinematics', () => {
+  const poses: TJointAngles[] = [
+    [0, -30, 60, -30, 45, 0],
+    [30, 20, -70, 40, -60, 120],
+    [-120, -80, 100, 10, 20, -150],
+    [75, 45, 30, -90, 130, 60],
+  ];
+
+  it.each(poses)('round-trips %j, nearest to the seed first', (...angles) => {
+    const result = inverseKinematics(forwardKinematics(angles), angles);
+
+    expect(result.reachable).toBe(true);
+    result.solutions[0]?.forEach((angle, i) => expect(angle).toBeCloseTo(angles[i] ?? 0, 6));
+    result.solutions.forEach((solution) => {
+      const error = poseError(forwardKinematics(solution), forwardKinematics(angles));
+
+      expect(error.position).toBeLessThan(1e-3);
+      expect(error.rotation).toBeLessThan(1e-3);
+    });
+  });
+
+  it('keeps joint 6 at the seed when the wrist is straight', () => {
+    const coords = forwardKinematics([10, -30, 60, -30, 90, 20]);
+    const result = inverseKinematics(coords, [10, -30, 60, -30, 90, 25]);
+    const [solution] = result.solutions;
+
+    expect(solution?.[5]).toBeCloseTo(25, 6);
+    expect(poseError(forwardKinematics(solution ?? [0, 0, 0, 0, 0, 0]), coords).position).toBeLessThan(1e-3);
+  });
+
+  it.each([90.03, -90.03])('keeps joint 6 at the seed with joint 5 at %d°, close to the pose', (joint5) => {
+    const coords = forwardKinematics([10, -30, 60, -30, joint5, 20]);
+    const result = inverseKinematics(coords, [10, -30, 60, -30, joint5, 25]);
+    const [solution] = result.solutions;
+    const error = poseError(forwardKinematics(solution ?? [0, 0, 0, 0, 0, 0]), coords);
+
+    expect(solution?.[5]).toBeCloseTo(25, 6);
+    expect(error.position).toBeLessThan(0.1);
+    expect(error.rotation).toBeLessThan(0.2);
+  });
+
+  it('solves exactly just outside the near-singular band', () => {
+    const angles: TJointAngles = [10, -30, 60, -30, 90.1, 20];
+    const result = inverseKinematics(forwardKinematics(angles), [10, -30, 60, -30, 90.1, 25]);
+
+    result.solutions[0]?.forEach((angle, i) => expect(angle).toBeCloseTo(angles[i] ?? 0, 6));
+  });
+
+  it('reports why a pose cannot be reached', () => {
+    expect(inverseKinematics([400, 0, 200, 0, 0, 0])).toEqual({ reachable: false, reason: 'out-of-reach', solutions: [] });
+    expect(inverseKinematics(forwardKinematics([0, 0, 0, 0, 0, 170]), [0, 0, 0, 0, 0, 0], {
+      jointLimits: new Array(6).fill({ min: -90, max: 90 }),
+    })).toEqual({ reachable: false, reason: 'joint-limits', solutions: [] });
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => inverseKinematics([0, 0, 0] as unknown as TCartesianCoords)).toThrow(/exactly 6/);
+    expect(() => inverseKinematics([0, 0, 200, 0, 0, 0], [0, 0, 0, 0, 0, NaN])).toThrow(/Seed angles/);
+  });
+});
@@ -0,0 +1,118 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { COMMAND_IDS } from '../src/lib/command-ids.js';
+import { AbortError } from '../src/lib/errors.js';
+import { MovementRecorder } from '../src/lib/movement-recorder.js';
+import type { IRecordingData } from '../src/lib/movement-recorder.js';
+import { MyCobotController } from '../src/lib/mycobot-controller.js';
+import { MyCobotSimulator, SimulatorTransport } from '../src/lib/mycobot-simulator.js';
+
+describe('MovementRecorder teach modes', () => {
+  let simulator: MyCobotSimulator;
+  let robot: MyCobotController;
+
+  beforeEach(async () => {
+    simulator = new MyCobotSimulator({ autoTick: false });
+    robot = new MyCobotController(new SimulatorTransport(simulator));
+    await robot.connect();
+  });
+
+  afterEach(async () => {
+    await robot.disconnect();
+  });
+
+  it('releases only the teach joints and locks them again afterwards', async () => {
+    const recorder = new MovementRecorder(robot, { teachJoints: [1, 2] });
+
+    await recorder.startRecording();
+    expect(simulator.getState().servoEnabled).toEqual([false, false, true, true, true, true]);
+
+    simulator.moveByHand([20, 20, 20, 20, 20, 20]);
+    await delay(150);
+    const result = await recorder.stopRecording();
+
+    expect(result.frameCount).toBeGreaterThan(0);
+    expect(simulator.getState().angles).toEqual([20, 20, 0, 0, 0, 0]);
+    expect(simulator.getState().servoEnabled).toEqual([true, true, true, true, true, true]);
+  });
+
+  it('uses free-move mode and leaves it when recording stops', async () => {
+    const recorder = new MovementRecorder(robot, { teachMode: 'free' });
+
+    await recorder.startRecording();
+    expect(simulator.getState().freeMode).toBe(true);
+    expect(simulator.getState().servoEnabled).toEqual([true, true, true, true, true, true]);
+
+    simulator.moveByHand([10, -10, 10, -10, 10, -10]);
+    await delay(150);
+    await recorder.stopRecording();
+
+    expect(simulator.getState().freeMode).toBe(false);
+    expect(simulator.getState().angles).toEqual([10, -10, 10, -10, 10, -10]);
+  });
+
+  it('rejects teach joints in free-move mode', () => {
+    expect(() => new MovementRecorder(robot, { teachMode: 'free', teachJoints: [1] })).toThrow(
+      "teachJoints only applies to 'release' teach mode",
+    );
+  });
+});
+
+describe('MovementRecorder.listRecordings', () => {
+  it('rejects when the signal aborts, even for a directory without recordings', async () => {
+    const robot = new MyCobotController(new SimulatorTransport(new MyCobotSimulator({ autoTick: false })));
+    const recorder = new MovementRecorder(robot);
+    const directory = await mkdtemp(join(tmpdir(), 'recordings-'));
+    const controller = new AbortController();
+
+    try {
+      expect(await recorder.listRecordings(directory)).toEqual([]);
+
+      controller.abort();
+      await expect(recorder.listRecordings(directory, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('MovementRecorder coords playback', () => {
+  const recording: IRecordingData = {
+    metadata: {
+      recordedAt: new Date(0).toISOString(),
+      duration: 50,
+      frameCount: 2,
+      sampleRate: 20,
+      recordingMode: 'coords',
+    },
+    frames: [
+      { timestamp: 0, position: [150, -60, 250, -90, 0, -90], mode: 'coords' },
+      { timestamp: 50, position: [150, -60, 240, -90, 0, -90], mode: 'coords' },
+    ],
+  };
+
+  it('sends the frames in the firmware linear mode by default, as before', async () => {
+    const robot = new MyCobotController(new SimulatorTransport(new MyCobotSimulator({ autoTick: false })));
+    const recorder = new MovementRecorder(robot);
+    const modes: number[] = [];
+
+    robot.on('packetSent', (frame) => {
+      if (frame.commandId === COMMAND_IDS.SEND_COORDS) {
+        modes.push(frame.payload[13] ?? -1);
+      }
+    });
+    await robot.connect();
+
+    try {
+      await recorder.playRecording(recording);
+      await recorder.playRecording(recording, { coordsPlayback: 'angular' });
+    } finally {
+      await robot.disconnect();
+    }
+
+    expect(modes).toEqual([1, 1, 0, 0]);
+  });
+});
@@ -0,0 +1,237 @@
+import { once } from 'node:events';
+import { setTimeout as delay } from 'node:timers/promises';
+import { afterEach, describe, expect, it } from 'vitest';
+import { COMMAND_IDS } from '../src/lib/command-ids.js';
+import type { TCartesianCoords } from '../src/lib/command-ids.js';
+import { CommandTimeoutError, MotionTimeoutError } from '../src/lib/errors.js';
+import { forwardKinematics } from '../src/lib/kinematics.js';
+import { MyCobotController } from '../src/lib/mycobot-controller.js';
+import type { IMyCobotControllerOptions } from '../src/lib/mycobot-controller.js';
+import { MyCobotSimulator, SimulatorTransport } from '../src/lib/mycobot-simulator.js';
+import type { IMyCobotSimulatorOptions } from '../src/lib/mycobot-simulator.js';
+import type { IFrame } from '../src/lib/protocol-codec.js';
+
+describe('MyCobotController', () => {
+  const robots: MyCobotController[] = [];
+
+  /**
+   * Connect a controller to a fresh simulator
+   * @param simulatorOptions - Simulator options
+   * @param options - Controller options
+   * @returns Connected controller, its transport and simulator, and the frames it sent
+   */
+  async function connect(
+    simulatorOptions: IMyCobotSimulatorOptions = {},
+    options: IMyCobotControllerOptions = {},
+  ): Promise<{
+    robot: MyCobotController;
+    transport: SimulatorTransport;
+    simulator: MyCobotSimulator;
+    sent: IFrame[];
+  }> {
+    const simulator = new MyCobotSimulator({ autoTick: false, ...simulatorOptions });
+    const transport = new SimulatorTransport(simulator);
+    const robot = new MyCobotController(transport, options);
+    const sent: IFrame[] = [];
+
+    robots.push(robot);
+    robot.on('packetSent', (frame) => sent.push(frame));
+    await robot.connect();
+
+    return { robot, transport, simulator, sent };
+  }
+
+  afterEach(async () => {
+    await Promise.all(robots.splice(0).map(async (robot) => robot.disconnect()));
+  });
+
+  it('emits connection and packet events instead of logging', async () => {
+    const events: string[] = [];
+    const simulator = new MyCobotSimulator({ autoTick: false, initialAngles: [1, 2, 3, 4, 5, 6] });
+    const robot = new MyCobotController(new SimulatorTransport(simulator));
+
+    robot.on('connect', () => events.push('connect'));
+    robot.on('disconnect', () => events.push('disconnect'));
+    robot.on('packetSent', (frame) => events.push(`sent 0x${frame.commandId.toString(16)}`));
+    robot.on('packetReceived', (frame) => events.push(`received 0x${frame.commandId.toString(16)}`));
+
+    await robot.connect();
+    expect(await robot.getAngles()).toEqual([1, 2, 3, 4, 5, 6]);
+    await robot.disconnect();
+
+    expect(events).toEqual(['connect', 'sent 0x20', 'received 0x20', 'disconnect']);
+  });
+
+  it('emits timeout when the robot does not answer in time', async () => {
+    const { robot } = await connect({ responseDelay: 800 });
+    const timeouts: [number, number][] = [];
+
+    robot.on('timeout', (commandId, timeoutMs) => timeouts.push([commandId, timeoutMs]));
+
+    await expect(robot.getAngles()).rejects.toThrow('Command timeout: 0x20');
+    expect(timeouts).toEqual([[COMMAND_IDS.GET_ANGLES, 500]]);
+  });
+
+  it('reconnects after an unexpected disconnect and restores the speed', async () => {
+    const { robot, transport, sent } = await connect({}, { reconnect: { initialDelay: 10 } });
+
+    await robot.setSpeed(70);
+    sent.length = 0;
+
+    const reconnected = once(robot, 'reconnect');
+
+    await transport.close();
+    await reconnected;
+
+    expect(robot.connected).toBe(true);
+    expect(sent.map((frame) => [frame.commandId, [...frame.payload]])).toEqual([
+      [COMMAND_IDS.SET_SPEED, [70]],
+    ]);
+  });
+
+  it('honours the timeout option and per-command and per-call overrides', async () => {
+    const { robot } = await connect(
+      { responseDelay: 150 },
+      { timeout: 100, commandTimeouts: { GET_SPEED: 1000 } },
+    );
+
+    // Each timed-out request is given time to receive its late reply before the next one
+    await expect(robot.getAngles()).rejects.toMatchObject({ timeoutMs: 100 });
+    await delay(100);
+    await expect(robot.getAngles({ timeout: 50 })).rejects.toBeInstanceOf(CommandTimeoutError);
+    await delay(150);
+    expect(await robot.getSpeed()).toBe(50);
+    expect(await robot.getAngles({ timeout: 1000 })).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+
+  it('jogs a joint until the jog is stopped', async () => {
+    const { robot, simulator, sent } = await connect();
+
+    await robot.jogAngle(2, 1, 40);
+    simulator.advance(200);
+    await robot.jogStop();
+
+    const [, joint2] = simulator.getState().angles;
+
+    expect(joint2).toBeGreaterThan(0);
+    simulator.advance(1000);
+    expect(simulator.getState().angles[1]).toBe(joint2);
+    expect(sent.map((frame) => [frame.commandId, [...frame.payload]])).toEqual([
+      [COMMAND_IDS.JOG_ANGLE, [2, 1, 40]],
+      [COMMAND_IDS.JOG_STOP, []],
+    ]);
+  });
+
+  it('applies incremental jogs to the measured angle', async () => {
+    const { robot, simulator } = await connect({ initialAngles: [10, 0, 0, 0, 0, 0] });
+
+    await robot.jogIncrementAngle(1, -25, 50);
+    simulator.advance(5000);
+
+    expect(simulator.getState().angles[0]).toBe(-15);
+  });
+
+  it('rejects angle targets outside the cached joint limits', async () => {
+    const { robot, sent } = await connect();
+
+    await robot.setJointMaxAngle(1, 90);
+    sent.length = 0;
+
+    await expect(robot.sendAngles([120, 0, 0, 0, 0, 0], 50)).rejects.toThrow(
+      'Angle 120 for joint 1 is outside its limits',
+    );
+    await expect(robot.sendAngle(1, 91, 50)).rejects.toThrow('outside its limits');
+    expect(sent).toEqual([]);
+
+    await robot.sendAngle(1, 90, 50);
+    expect(sent.map((frame) => frame.commandId)).toEqual([COMMAND_IDS.SEND_ANGLE]);
+  });
+
+  it('reports an overheating servo in the diagnostics', async () => {
+    const { robot, simulator } = await connect();
+
+    simulator.setServoHealth(3, { temperature: 72 });
+    const diagnostics = await robot.getServoDiagnostics();
+
+    expect(diagnostics).toHaveLength(6);
+    expect(diagnostics[2]).toMatchObject({ jointId: 3, temperature: 72, overheating: true });
+    expect(diagnostics.filter((servo) => servo.overheating)).toHaveLength(1);
+  });
+
+  it('resolves sendAnglesAndWait once the arm reaches the target', async () => {
+    const { robot } = await connect({ autoTick: true });
+
+    const reached = await robot.sendAnglesAndWait([5, -5, 0, 0, 0, 0], 100, { pollInterval: 20 });
+
+    expect(reached[0]).toBeCloseTo(5, 0);
+    expect(reached[1]).toBeCloseTo(-5, 0);
+  });
+
+  it('rejects sendAnglesAndWait with MotionTimeoutError when the arm does not arrive', async () => {
+    const { robot } = await connect();
+
+    const error: unknown = await robot
+      .sendAnglesAndWait([30, 0, 0, 0, 0, 0], 50, { waitTimeout: 200, pollInterval: 20 })
+      .catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(MotionTimeoutError);
+    expect(error).toMatchObject({ timeoutMs: 200, pose: [0, 0, 0, 0, 0, 0] });
+  });
+
+  it('sends encoder targets followed by per-joint speeds in SET_ENCODERS_DRAG', async () => {
+    const { robot, simulator, sent } = await connect();
+
+    await robot.sendEncodersWithSpeeds(
+      [2048, 3072, 1024, 2048, 2048, 2560],
+      [100, 200, 300, 400, 500, 600],
+    );
+
+    const [frame] = sent;
+    const payload = frame?.payload ?? Buffer.alloc(0);
+
+    expect(frame?.commandId).toBe(COMMAND_IDS.SET_ENCODERS_DRAG);
+    expect(Array.from({ length: 12 }, (_, i) => payload.readInt16BE(i * 2))).toEqual([
+      2048, 3072, 1024, 2048, 2048, 2560,
+      100, 200, 300, 400, 500, 600,
+    ]);
+
+    simulator.advance(10000);
+    expect(simulator.getState().angles).toEqual([0, 90, -90, 0, 0, 45]);
+  });
+
+  it('sends and reads positions in tenths of a millimetre', async () => {
+    const { robot, sent } = await connect();
+
+    await robot.sendCoords([150, -60, 350.25, -90, 0, 179.5], 50);
+
+    const payload = sent[0]?.payload ?? Buffer.alloc(0);
+
+    expect(Array.from({ length: 6 }, (_, i) => payload.readInt16BE(i * 2))).toEqual([
+      1500, -600, 3503, -9000, 0, 17950,
+    ]);
+    expect(await robot.getCoords()).toEqual([45.6, -63.4, 412.7, -90, 0, -90]);
+  });
+
+  it('resolves moveLinear once the arm arrives at the end of the line', async () => {
+    const { robot } = await connect({ autoTick: true, initialAngles: [0, -20, 60, 30, -50, 10] });
+    const [x, y, z, rx, ry, rz] = forwardKinematics(await robot.getAngles());
+    const target: TCartesianCoords = [x, y, z - 10, rx, ry, rz];
+    const startTime = Date.now();
+
+    const reached = await robot.moveLinear(target, { velocity: 50, pollInterval: 20 });
+    const [, , reachedZ = 0] = forwardKinematics(reached);
+
+    // 10 mm at 50 mm/s, with the last waypoint sent when the line is due to end
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(200);
+    expect(reachedZ).toBeCloseTo(z - 10, 0);
+  });
+
+  it('rejects moveLinear with MotionTimeoutError when the arm does not arrive', async () => {
+    const { robot } = await connect({ initialAngles: [0, -20, 60, 30, -50, 10] });
+    const [x, y, z, rx, ry, rz] = forwardKinematics(await robot.getAngles());
+
+    await expect(
+      robot.moveLinear([x, y, z - 10, rx, ry, rz], { velocity: 100, waitTimeout: 100, pollInterval: 20 }),
+    ).rejects.toBeInstanceOf(MotionTimeoutError);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MyCobotController } from '../src/lib/mycobot-controller.js';
+import { MyCobotSimulator, SimulatorTransport } from '../src/lib/mycobot-simulator.js';
+import type { IMyCobotSimulatorOptions } from '../src/lib/mycobot-simulator.js';
+
+describe('MyCobotSimulator', () => {
+  const robots: MyCobotController[] = [];
+
+  /**
+   * Connect a controller to a fresh simulator
+   * @param options - Simulator options
+   * @returns Connected controller and its simulator
+   */
+  async function connect(
+    options: IMyCobotSimulatorOptions = {},
+  ): Promise<{ robot: MyCobotController; simulator: MyCobotSimulator }> {
+    const simulator = new MyCobotSimulator({ autoTick: false, ...options });
+    const robot = new MyCobotController(new SimulatorTransport(simulator));
+
+    robots.push(robot);
+    await robot.connect();
+
+    return { robot, simulator };
+  }
+
+  afterEach(async () => {
+    await Promise.all(robots.splice(0).map(async (robot) => robot.disconnect()));
+  });
+
+  it('answers queries like the firmware', async () => {
+    const { robot } = await connect({ initialAngles: [10, -20, 30, 0, 45, -90] });
+
+    expect(await robot.getAngles()).toEqual([10, -20, 30, 0, 45, -90]);
+    expect(await robot.isPowerOn()).toBe(true);
+  });
+
+  it('moves the joints toward their targets over time', async () => {
+    const { robot, simulator } = await connect();
+
+    await robot.sendAngles([30, -30, 0, 0, 0, 0], 50);
+    simulator.advance(100);
+    const [joint1] = simulator.getState().angles;
+
+    expect(joint1).toBeGreaterThan(0);
+    expect(joint1).toBeLessThan(30);
+    expect(await robot.isMoving()).toBe(true);
+
+    simulator.advance(5000);
+    expect(simulator.getState().angles).toEqual([30, -30, 0, 0, 0, 0]);
+    expect(await robot.isMoving()).toBe(false);
+  });
+
+  it('lets released joints be moved by hand', async () => {
+    const { robot, simulator } = await connect();
+
+    await robot.releaseAllServos();
+    simulator.moveByHand([5, 10, 15, 20, 25, 30]);
+
+    expect(await robot.getAngles()).toEqual([5, 10, 15, 20, 25, 30]);
+  });
+});
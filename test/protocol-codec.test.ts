@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { COMMAND_IDS } from '../src/lib/command-ids.js';
+import { FrameParser, decodeFrame, encodeFrame, MAX_PAYLOAD_SIZE } from '../src/lib/protocol-codec.js';
+
+describe('encodeFrame / decodeFrame', () => {
+  it('round-trips a frame with a payload', () => {
+    const frame = encodeFrame(COMMAND_IDS.SEND_ANGLE, [1, 0x11, 0x94, 50]);
+
+    expect([...frame]).toEqual([0xFE, 0xFE, 6, COMMAND_IDS.SEND_ANGLE, 1, 0x11, 0x94, 50, 0xFA]);
+    expect(decodeFrame(frame)).toEqual({ commandId: COMMAND_IDS.SEND_ANGLE, payload: Buffer.from([1, 0x11, 0x94, 50]) });
+  });
+
+  it('round-trips a frame without a payload', () => {
+    const decoded = decodeFrame(encodeFrame(COMMAND_IDS.GET_ANGLES));
+
+    expect(decoded?.commandId).toBe(COMMAND_IDS.GET_ANGLES);
+    expect(decoded?.payload.length).toBe(0);
+  });
+
+  it('rejects payloads whose length byte would look like a header', () => {
+    expect(() => encodeFrame(COMMAND_IDS.SET_COLOR, new Array<number>(MAX_PAYLOAD_SIZE + 1).fill(0))).toThrow(/too large/);
+  });
+
+  it('returns null for anything but exactly one frame', () => {
+    const frame = encodeFrame(COMMAND_IDS.GET_ANGLES);
+
+    expect(decodeFrame(Buffer.concat([Buffer.from([0x00]), frame]))).toBeNull();
+    expect(decodeFrame(frame.subarray(0, frame.length - 1))).toBeNull();
+  });
+});
+
+describe('FrameParser', () => {
+  it('reassembles frames split across chunks', () => {
+    const parser = new FrameParser();
+    const frame = encodeFrame(COMMAND_IDS.GET_COORDS, [1, 2, 3]);
+
+    expect(parser.push(frame.subarray(0, 3))).toEqual([]);
+    expect(parser.push(frame.subarray(3))).toEqual([{ commandId: COMMAND_IDS.GET_COORDS, payload: Buffer.from([1, 2, 3]) }]);
+  });
+
+  it('resyncs over garbage and a corrupted frame', () => {
+    const parser = new FrameParser();
+    const discarded: Buffer[] = [];
+    const corrupted = encodeFrame(COMMAND_IDS.GET_SPEED, [1, 2]);
+
+    corrupted[corrupted.length - 1] = 0x00;
+    parser.on('resync', (bytes) => discarded.push(bytes));
+
+    const frames = parser.push(Buffer.concat([
+      Buffer.from([0x12, 0xFE, 0x34]),
+      corrupted,
+      encodeFrame(COMMAND_IDS.GET_ANGLES, [7]),
+      Buffer.from([0xFA, 0xFA]),
+      encodeFrame(COMMAND_IDS.IS_POWER_ON, [1]),
+    ]));
+
+    expect(frames.map((frame) => frame.commandId)).toEqual([COMMAND_IDS.GET_ANGLES, COMMAND_IDS.IS_POWER_ON]);
+    expect(parser.getStats().framesParsed).toBe(2);
+    expect(parser.getStats().invalidFrames).toBeGreaterThan(0);
+    expect(parser.getStats().garbageBytes).toBe(discarded.reduce((sum, bytes) => sum + bytes.length, 0));
+    expect(parser.bufferedBytes).toBe(0);
+  });
+
+  it('keeps a trailing partial header for the next chunk', () => {
+    const parser = new FrameParser();
+    const frame = encodeFrame(COMMAND_IDS.GET_ANGLES);
+
+    expect(parser.push(Buffer.from([0x55, 0xFE]))).toEqual([]);
+    expect(parser.push(frame.subarray(1))).toHaveLength(1);
+  });
+});
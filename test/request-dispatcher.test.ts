@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { COMMAND_IDS } from '../src/lib/command-ids.js';
+import { AbortError, CommandTimeoutError } from '../src/lib/errors.js';
+import { RequestDispatcher } from '../src/lib/request-dispatcher.js';
+
+const COMMAND = COMMAND_IDS.GET_ANGLES;
+
+/**
+ * Write function that answers the request after a short delay, or never
+ * @param dispatcher - Dispatcher to answer through
+ * @param payload - Response payload, or null to lose the response
+ * @returns Write function for send()
+ */
+function respondWith(dispatcher: RequestDispatcher, payload: number[] | null): () => Promise<void> {
+  return async () => {
+    if (payload !== null) {
+      setTimeout(() => {
+        dispatcher.handleResponse({ commandId: COMMAND, payload: Buffer.from(payload) });
+      }, 5);
+    }
+  };
+}
+
+describe('RequestDispatcher', () => {
+  it('matches responses to requests in send order', async () => {
+    const dispatcher = new RequestDispatcher();
+    const first = dispatcher.send(COMMAND, async () => undefined, 100);
+    const second = dispatcher.send(COMMAND, async () => undefined, 100);
+
+    dispatcher.handleResponse({ commandId: COMMAND, payload: Buffer.from([1]) });
+    dispatcher.handleResponse({ commandId: COMMAND, payload: Buffer.from([2]) });
+
+    expect(await first).toEqual(Buffer.from([1]));
+    expect(await second).toEqual(Buffer.from([2]));
+    expect(dispatcher.pendingCount).toBe(0);
+  });
+
+  it('reports a response to a timed-out request as late', async () => {
+    const dispatcher = new RequestDispatcher();
+    const late: number[] = [];
+
+    dispatcher.on('lateResponse', (_frame, request) => late.push(request.id));
+
+    await expect(dispatcher.send(COMMAND, async () => undefined, 20)).rejects.toBeInstanceOf(CommandTimeoutError);
+    expect(dispatcher.handleResponse({ commandId: COMMAND, payload: Buffer.from([1]) })).toBe(true);
+    expect(late).toEqual([1]);
+  });
+
+  it('keeps a late response from reaching the next caller', async () => {
+    const dispatcher = new RequestDispatcher({ lateResponseWindow: 1000 });
+    const late: number[][] = [];
+
+    dispatcher.on('lateResponse', (frame, request) => late.push([request.id, ...frame.payload]));
+
+    await expect(dispatcher.send(COMMAND, async () => undefined, 20)).rejects.toBeInstanceOf(CommandTimeoutError);
+
+    const second = dispatcher.send(COMMAND, async () => undefined, 100);
+
+    dispatcher.handleResponse({ commandId: COMMAND, payload: Buffer.from([1]) });
+    dispatcher.handleResponse({ commandId: COMMAND, payload: Buffer.from([2]) });
+
+    expect(await second).toEqual(Buffer.from([2]));
+    expect(late).toEqual([[1, 1]]);
+  });
+
+  it.each([false, true])('loses at most one more request after a lost response (serialize: %s)', async (serialize) => {
+    const dispatcher = new RequestDispatcher({ serialize, lateResponseWindow: 1000 });
+    let lateResponses = 0;
+
+    dispatcher.on('lateResponse', () => {
+      lateResponses += 1;
+    });
+
+    await expect(dispatcher.send(COMMAND, respondWith(dispatcher, null), 30)).rejects.toBeInstanceOf(CommandTimeoutError);
+    // The lost response's place takes this request's response as late
+    await expect(dispatcher.send(COMMAND, respondWith(dispatcher, [0]), 30)).rejects.toBeInstanceOf(CommandTimeoutError);
+
+    for (let i = 1; i < 5; i += 1) {
+      expect(await dispatcher.send(COMMAND, respondWith(dispatcher, [i]), 30)).toEqual(Buffer.from([i]));
+    }
+    expect(lateResponses).toBe(1);
+    expect(dispatcher.pendingCount).toBe(0);
+  });
+
+  it('removes an aborted request from the queue', async () => {
+    const dispatcher = new RequestDispatcher({ lateResponseWindow: 1000 });
+    const controller = new AbortController();
+    const aborted = dispatcher.send(COMMAND, async () => undefined, 1000, { signal: controller.signal });
+
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    expect(dispatcher.pendingCount).toBe(0);
+    expect(dispatcher.handleResponse({ commandId: COMMAND, payload: Buffer.from([1]) })).toBe(false);
+    expect(await dispatcher.send(COMMAND, respondWith(dispatcher, [2]), 100)).toEqual(Buffer.from([2]));
+  });
+
+  it('lets a retry take over the place of the request it repeats', async () => {
+    const dispatcher = new RequestDispatcher();
+    const timeouts: number[] = [];
+
+    dispatcher.on('timeout', (request) => timeouts.push(request.id));
+
+    await expect(dispatcher.send(COMMAND, async () => undefined, 20)).rejects.toBeInstanceOf(CommandTimeoutError);
+
+    const retry = dispatcher.send(COMMAND, async () => undefined, 100, { supersedes: timeouts[0] ?? 0 });
+
+    dispatcher.handleResponse({ commandId: COMMAND, payload: Buffer.from([7]) });
+    expect(await retry).toEqual(Buffer.from([7]));
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { COMMAND_IDS } from '../src/lib/command-ids.js';
+import { RetryPolicy } from '../src/lib/retry-policy.js';
+
+describe('RetryPolicy', () => {
+  it('retries idempotent queries until the attempts run out', () => {
+    const policy = new RetryPolicy({ attempts: 3 });
+
+    expect(policy.shouldRetry(COMMAND_IDS.GET_ANGLES, 1)).toBe(true);
+    expect(policy.shouldRetry(COMMAND_IDS.GET_ANGLES, 2)).toBe(true);
+    expect(policy.shouldRetry(COMMAND_IDS.GET_ANGLES, 3)).toBe(false);
+  });
+
+  it('never retries motion commands', () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.shouldRetry(COMMAND_IDS.SEND_ANGLES, 1)).toBe(false);
+    expect(policy.shouldRetry(COMMAND_IDS.STOP, 1)).toBe(false);
+    expect(() => new RetryPolicy({ idempotentCommands: ['GET_ANGLES', 'SEND_COORDS'] })).toThrow(/SEND_COORDS/);
+  });
+
+  it('only retries the configured commands', () => {
+    const policy = new RetryPolicy({ idempotentCommands: ['GET_COORDS'] });
+
+    expect(policy.isRetryable(COMMAND_IDS.GET_COORDS)).toBe(true);
+    expect(policy.isRetryable(COMMAND_IDS.GET_ANGLES)).toBe(false);
+  });
+
+  it('waits the base delay plus up to the jitter', () => {
+    const policy = new RetryPolicy({ delay: 100, jitter: 50 });
+
+    for (let i = 0; i < 100; i += 1) {
+      const delay = policy.getDelay();
+
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThan(150);
+    }
+    expect(new RetryPolicy({ delay: 20, jitter: 0 }).getDelay()).toBe(20);
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => new RetryPolicy({ attempts: 0 })).toThrow(/positive integer/);
+    expect(() => new RetryPolicy({ attempts: 1.5 })).toThrow(/positive integer/);
+    expect(() => new RetryPolicy({ delay: -1 })).toThrow(/must not be negative/);
+  });
+});
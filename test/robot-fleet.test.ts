@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { COMMAND_IDS } from '../src/lib/command-ids.js';
+import { MyCobotSimulator, SimulatorTransport } from '../src/lib/mycobot-simulator.js';
+import type { IMyCobotSimulatorOptions } from '../src/lib/mycobot-simulator.js';
+import { RobotFleet } from '../src/lib/robot-fleet.js';
+
+/**
+ * Create a transport to a simulator that does not advance on its own
+ * @param options - Simulator options
+ * @returns Simulator transport
+ */
+function simulated(options: IMyCobotSimulatorOptions = {}): SimulatorTransport {
+  return new SimulatorTransport(new MyCobotSimulator({ autoTick: false, ...options }));
+}
+
+describe('RobotFleet', () => {
+  let fleet = new RobotFleet();
+
+  afterEach(async () => {
+    await fleet.disconnectAll();
+    fleet = new RobotFleet();
+  });
+
+  it('runs an operation on every robot and reports the outcome per robot', async () => {
+    fleet.add('left', simulated({ initialAngles: [10, 0, 0, 0, 0, 0] }));
+    fleet.add('right', simulated({ initialAngles: [-10, 0, 0, 0, 0, 0] }));
+    fleet.add('slow', simulated({ responseDelay: 300 }), { timeout: 100 });
+
+    const connected = await fleet.connectAll();
+
+    expect(connected.map((result) => [result.name, result.status])).toEqual([
+      ['left', 'fulfilled'],
+      ['right', 'fulfilled'],
+      ['slow', 'fulfilled'],
+    ]);
+
+    const results = await fleet.broadcast(async ({ robot }) => robot.getAngles());
+
+    expect(results.map((result) => result.name)).toEqual(['left', 'right', 'slow']);
+    expect(results[0]).toMatchObject({ status: 'fulfilled', value: [10, 0, 0, 0, 0, 0] });
+    expect(results[1]).toMatchObject({ status: 'fulfilled', value: [-10, 0, 0, 0, 0, 0] });
+    expect(results[2]).toMatchObject({ status: 'rejected', reason: { commandId: COMMAND_IDS.GET_ANGLES } });
+  });
+
+  it('tracks connection state and timeouts in the health snapshot', async () => {
+    fleet.add('ok', simulated());
+    fleet.add('slow', simulated({ responseDelay: 300 }), { timeout: 100 });
+    await fleet.connectAll();
+    await fleet.broadcast(async ({ robot }) => robot.getSpeed());
+
+    const [ok, slow] = fleet.getHealth();
+
+    expect(ok).toMatchObject({ name: 'ok', connected: true, playing: false, timeouts: 0, lastError: null });
+    expect(ok?.lastSeen).not.toBeNull();
+    expect(slow).toMatchObject({ name: 'slow', connected: true, timeouts: 1 });
+  });
+
+  it('registers each name once and forgets removed robots', async () => {
+    const removed: string[] = [];
+
+    fleet.on('removed', (name) => removed.push(name));
+    fleet.add('arm', simulated());
+
+    expect(() => fleet.add('arm', simulated())).toThrow('Robot already registered: arm');
+
+    await fleet.remove('arm');
+
+    expect(fleet.has('arm')).toBe(false);
+    expect(fleet.size).toBe(0);
+    expect(removed).toEqual(['arm']);
+    expect(() => fleet.get('arm')).toThrow('Unknown robot: arm');
+  });
+});
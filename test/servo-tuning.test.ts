@@ -0,0 +1,60 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MyCobotController } from '../src/lib/mycobot-controller.js';
+import { MyCobotSimulator, SimulatorTransport } from '../src/lib/mycobot-simulator.js';
+import { ServoTuning } from '../src/lib/servo-tuning.js';
+import type { IServoTuningSnapshot } from '../src/lib/servo-tuning.js';
+
+describe('ServoTuning', () => {
+  let robot: MyCobotController;
+  let tuning: ServoTuning;
+  let directory: string;
+
+  beforeEach(async () => {
+    robot = new MyCobotController(new SimulatorTransport(new MyCobotSimulator({ autoTick: false })));
+    tuning = new ServoTuning(robot, { registers: ['P_GAIN', 'MAX_SPEED'] });
+    directory = await mkdtemp(join(tmpdir(), 'servo-tuning-'));
+    await robot.connect();
+  });
+
+  afterEach(async () => {
+    await robot.disconnect();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('restores only the registers that changed since the snapshot', async () => {
+    const snapshot = await tuning.snapshot();
+    const gain = await robot.getServoData(2, 'P_GAIN');
+    const speed = await robot.getServoData(2, 'MAX_SPEED');
+
+    expect(snapshot.joints).toHaveLength(6);
+    expect(snapshot.joints[1]?.values).toEqual({ P_GAIN: gain, MAX_SPEED: speed });
+
+    await robot.setServoData(2, 'P_GAIN', gain + 5);
+
+    expect(await tuning.restore(snapshot)).toEqual({ written: 1, unchanged: 11 });
+    expect(await robot.getServoData(2, 'P_GAIN')).toBe(gain);
+  });
+
+  it('saves snapshots to a file and restores from it', async () => {
+    const filename = join(directory, 'tuning.json');
+    const saved = await tuning.save(filename, { arm: 'left' });
+
+    expect(await tuning.load(filename)).toEqual(saved);
+    expect(saved.metadata).toEqual({ arm: 'left' });
+    expect(await tuning.restore(filename)).toEqual({ written: 0, unchanged: 12 });
+  });
+
+  it('rejects snapshots naming registers that do not exist', async () => {
+    const snapshot = {
+      takenAt: new Date().toISOString(),
+      joints: [{ jointId: 1, values: { toString: 1 } }],
+    } as unknown as IServoTuningSnapshot;
+
+    await expect(tuning.restore(snapshot)).rejects.toThrow(
+      'Invalid servo parameter snapshot: bad value for toString on joint 1',
+    );
+  });
+});
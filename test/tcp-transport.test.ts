@@ -0,0 +1,78 @@
+import net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { TcpTransport } from '../src/lib/tcp-transport.js';
+
+/**
+ * Start a socket server on a free local port
+ * @param onConnection - Handles each accepted socket
+ * @param options - Server options
+ * @returns Listening server and its port
+ */
+async function listen(
+  onConnection: (socket: net.Socket) => void,
+  options: net.ServerOpts = {},
+): Promise<{ server: net.Server; port: number }> {
+  const server = net.createServer(options, onConnection);
+
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+
+  return { server, port: (server.address() as net.AddressInfo).port };
+}
+
+describe('TcpTransport', () => {
+  const servers: net.Server[] = [];
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(async (server) => new Promise((resolve) => {
+      server.close(resolve);
+    })));
+  });
+
+  it('exchanges bytes with the socket server', async () => {
+    const { server, port } = await listen((socket) => {
+      socket.on('data', (data) => socket.write(Buffer.concat([Buffer.from([0xfe]), data])));
+    });
+
+    servers.push(server);
+    const transport = new TcpTransport({ host: '127.0.0.1', port });
+    const received = new Promise<Buffer>((resolve) => {
+      transport.on('data', resolve);
+    });
+
+    await transport.open();
+    expect(transport.isOpen).toBe(true);
+    await transport.write(Buffer.from([0x01, 0x02]));
+    expect(await received).toEqual(Buffer.from([0xfe, 0x01, 0x02]));
+    await transport.close();
+    expect(transport.isOpen).toBe(false);
+  });
+
+  it('destroys the socket when the server does not acknowledge a close', async () => {
+    const sockets: net.Socket[] = [];
+    const { server, port } = await listen((socket) => {
+      sockets.push(socket);
+    }, { allowHalfOpen: true });
+
+    servers.push(server);
+    const transport = new TcpTransport({ host: '127.0.0.1', port, closeTimeout: 50 });
+
+    await transport.open();
+    await transport.close();
+    expect(transport.isOpen).toBe(false);
+    sockets.forEach((socket) => socket.destroy());
+  });
+
+  it('rejects when nothing is listening', async () => {
+    const { server, port } = await listen(() => undefined);
+
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+    const transport = new TcpTransport({ host: '127.0.0.1', port });
+
+    await expect(transport.open()).rejects.toThrow(/Failed to connect/);
+    await expect(transport.write(Buffer.from([0x01]))).rejects.toThrow(/not open/);
+  });
+});
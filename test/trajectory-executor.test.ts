@@ -0,0 +1,64 @@
+import { setTimeout as delay } from 'node:timers/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { COMMAND_IDS } from '../src/lib/command-ids.js';
+import { MyCobotController } from '../src/lib/mycobot-controller.js';
+import { MyCobotSimulator, SimulatorTransport } from '../src/lib/mycobot-simulator.js';
+import { TrajectoryExecutor } from '../src/lib/trajectory-executor.js';
+import { planTrajectory } from '../src/lib/trajectory-planner.js';
+
+describe('TrajectoryExecutor', () => {
+  let robot: MyCobotController;
+  let setpoints: number[][];
+
+  beforeEach(async () => {
+    robot = new MyCobotController(new SimulatorTransport(new MyCobotSimulator({ autoTick: false })));
+    setpoints = [];
+    robot.on('packetSent', (frame) => {
+      if (frame.commandId === COMMAND_IDS.SEND_ANGLES) {
+        setpoints.push(Array.from({ length: 6 }, (_, i) => frame.payload.readInt16BE(i * 2) / 100));
+      }
+    });
+    await robot.connect();
+  });
+
+  afterEach(async () => {
+    await robot.disconnect();
+  });
+
+  it('streams every setpoint of a trajectory', async () => {
+    const executor = new TrajectoryExecutor(robot, { rate: 50 });
+    const trajectory = planTrajectory([0, 0, 0, 0, 0, 0], [10, 0, 0, 0, 0, -10], { velocity: 100, acceleration: 400 });
+
+    await executor.execute(trajectory);
+
+    expect(setpoints).toHaveLength(trajectory.samples(50).length);
+    expect(setpoints.at(-1)).toEqual([10, 0, 0, 0, 0, -10]);
+    expect(executor.executing).toBe(false);
+  });
+
+  it('does not resume a stopped run when a new one starts right away', async () => {
+    const executor = new TrajectoryExecutor(robot, { rate: 20 });
+    const options = { velocity: 60, acceleration: 120 };
+    const forward = planTrajectory([0, 0, 0, 0, 0, 0], [30, 0, 0, 0, 0, 0], options);
+    const backward = planTrajectory([0, 0, 0, 0, 0, 0], [-30, 0, 0, 0, 0, 0], options);
+
+    const first = executor.execute(forward);
+
+    await delay(120);
+    executor.stop();
+
+    const stoppedAt = setpoints.length;
+    const second = executor.execute(backward);
+
+    expect(executor.executing).toBe(true);
+    await first;
+    expect(executor.executing).toBe(true);
+    await second;
+
+    const streamed = setpoints.slice(stoppedAt);
+
+    expect(streamed).toHaveLength(backward.samples(20).length);
+    expect(streamed.every(([joint1 = 0]) => joint1 <= 0)).toBe(true);
+    expect(executor.executing).toBe(false);
+  });
+});
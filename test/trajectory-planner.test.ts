@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { TJointAngles } from '../src/lib/command-ids.js';
+import { JointTrajectory, planTrajectory } from '../src/lib/trajectory-planner.js';
+import type { ITrajectoryOptions } from '../src/lib/trajectory-planner.js';
+
+/** Sampling rate used to estimate accelerations, in samples per second */
+const RATE = 2000;
+
+/**
+ * Largest velocity and finite-difference acceleration of each joint
+ * @param trajectory - Trajectory to sample
+ * @returns Peak absolute velocity and acceleration per joint
+ */
+function peaks(trajectory: JointTrajectory): { velocity: number[]; acceleration: number[] } {
+  const points = trajectory.samples(RATE);
+  const velocity = new Array<number>(6).fill(0);
+  const acceleration = new Array<number>(6).fill(0);
+
+  points.forEach((point, index) => {
+    const previous = points[index - 1];
+
+    point.velocities.forEach((value, joint) => {
+      velocity[joint] = Math.max(velocity[joint] ?? 0, Math.abs(value));
+      if (previous && point.time > previous.time) {
+        const change = Math.abs(value - (previous.velocities[joint] ?? 0)) / (point.time - previous.time);
+
+        acceleration[joint] = Math.max(acceleration[joint] ?? 0, change);
+      }
+    });
+  });
+
+  return { velocity, acceleration };
+}
+
+const START: TJointAngles = [0, 0, 0, 0, 0, 0];
+const moves: [string, TJointAngles][] = [
+  ['a long move', [90, -45, 120, 10, -160, 30]],
+  ['a short move', [2, -1, 0.5, 0, 0, 1]],
+];
+const limits: [string, ITrajectoryOptions][] = [
+  ['trapezoidal', { velocity: 60, acceleration: 120 }],
+  ['s-curve', { velocity: 60, acceleration: 120, jerk: 600 }],
+  ['per-joint trapezoidal', { velocity: [60, 50, 40, 90, 90, 120], acceleration: [120, 80, 80, 200, 200, 300] }],
+  ['per-joint s-curve', {
+    velocity: [60, 50, 40, 90, 90, 120],
+    acceleration: [120, 80, 80, 200, 200, 300],
+    jerk: [600, 400, 400, 1000, 1000, 1500],
+  }],
+];
+const cases = moves.flatMap(([move, goal]) => limits.map(([profile, options]) => [`${profile}, ${move}`, goal, options] as const));
+
+describe('planTrajectory', () => {
+  it.each(cases)('keeps every joint within its limits (%s)', (_name, goal, options) => {
+    const trajectory = planTrajectory(START, goal, options);
+    const { velocity, acceleration } = peaks(trajectory);
+    const limit = (value: number | readonly number[], joint: number): number => (
+      typeof value === 'number' ? value : value[joint] ?? 0
+    );
+
+    velocity.forEach((peak, joint) => expect(peak).toBeLessThanOrEqual(limit(options.velocity, joint) * (1 + 1e-9)));
+    // Finite differences average over one sample, so allow one sample of jerk on top
+    acceleration.forEach((peak, joint) => {
+      const slack = options.jerk === undefined ? 1e-6 : limit(options.jerk, joint) / RATE;
+
+      expect(peak).toBeLessThanOrEqual(limit(options.acceleration, joint) * (1 + 1e-6) + slack);
+    });
+  });
+
+  it.each(cases)('starts and ends at rest on the requested poses (%s)', (_name, goal, options) => {
+    const trajectory = planTrajectory(START, goal, options);
+    const first = trajectory.sample(0);
+    const last = trajectory.sample(trajectory.duration);
+
+    expect(first.angles).toEqual(START);
+    last.angles.forEach((angle, joint) => expect(angle).toBeCloseTo(goal[joint] ?? 0, 9));
+    [...first.velocities, ...last.velocities].forEach((value) => expect(value).toBeCloseTo(0, 9));
+  });
+
+  it.each(cases)('moves continuously without overshooting the goal (%s)', (_name, goal, options) => {
+    const trajectory = planTrajectory(START, goal, options);
+    const almostDone = trajectory.sample(trajectory.duration - 1e-6);
+
+    almostDone.angles.forEach((angle, joint) => expect(angle).toBeCloseTo(goal[joint] ?? 0, 3));
+    const overshoot = Math.max(...trajectory.samples(RATE).flatMap((point) => (
+      point.angles.map((angle, joint) => Math.abs(angle) - Math.abs(goal[joint] ?? 0))
+    )));
+
+    expect(overshoot).toBeLessThanOrEqual(1e-9);
+  });
+
+  it('reaches the velocity limit of the joint that sets the pace on a long move', () => {
+    const trajectory = planTrajectory(START, [90, 45, 0, 0, 0, 0], { velocity: 30, acceleration: 60 });
+
+    expect(Math.max(...peaks(trajectory).velocity)).toBeCloseTo(30, 6);
+    expect(trajectory.duration).toBeCloseTo(90 / 30 + 30 / 60, 9);
+  });
+
+  it('stretches to a longer duration without exceeding the limits', () => {
+    const options = { velocity: 60, acceleration: 120, jerk: 600 };
+    const fastest = planTrajectory(START, [90, 0, 0, 0, 0, 0], options);
+    const slow = planTrajectory(START, [90, 0, 0, 0, 0, 0], { ...options, duration: fastest.duration * 2 });
+
+    expect(slow.duration).toBeCloseTo(fastest.duration * 2, 9);
+    expect(Math.max(...peaks(slow).velocity)).toBeCloseTo(30, 6);
+  });
+
+  it('rejects a duration shorter than the limits allow', () => {
+    expect(() => planTrajectory(START, [90, 0, 0, 0, 0, 0], { velocity: 60, acceleration: 120, duration: 1 }))
+      .toThrow(/shorter than the limits allow/);
+  });
+
+  it('rejects an s-curve without a jerk limit and invalid limits', () => {
+    expect(() => planTrajectory(START, [90, 0, 0, 0, 0, 0], { velocity: 60, acceleration: 120, profile: 's-curve' }))
+      .toThrow(/jerk limit/);
+    expect(() => planTrajectory(START, [90, 0, 0, 0, 0, 0], { velocity: [60, 60], acceleration: 120 }))
+      .toThrow(/Velocity must be/);
+  });
+
+  it('plans an empty move for identical poses', () => {
+    const trajectory = planTrajectory(START, START, { velocity: 60, acceleration: 120 });
+
+    expect(trajectory.duration).toBe(0);
+    expect(trajectory.samples(100)).toHaveLength(1);
+  });
+});